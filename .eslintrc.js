@@ -70,4 +70,12 @@ module.exports = {
     '@typescript-eslint/no-unused-expressions': ['error', {allowShortCircuit: true}],
     'prefer-const': ['error', {destructuring: 'all'}],
   },
+  overrides: [
+    {
+      files: ['**/*.test.js', '**/*.test.ts'],
+      env: {
+        jest: true,
+      },
+    },
+  ],
 };
@@ -0,0 +1,122 @@
+import _ from 'lodash';
+import fencingReducer from '../src/shared/fencingGameEvents/gameReducer';
+import FencingManager from './FencingManager';
+import {addGameEvent, addInitialGameEvent, GameEvent, getGameEvents} from './model/game';
+import {getGameState} from './model/game_snapshot';
+import {addPuzzle} from './model/puzzle';
+import {makePuzzle} from './testUtils';
+
+// a new fencing game of makePuzzle
+async function createFencingGame() {
+  const {pid} = await addPuzzle(makePuzzle(), false);
+  const gid = _.uniqueId('fencing-');
+  await addInitialGameEvent(gid, pid, {fencing: true});
+  return gid;
+}
+
+const makeEvent = (type: string, params: object): GameEvent => ({
+  timestamp: Date.now(),
+  type,
+  params,
+  id: _.uniqueId('event-'),
+});
+
+describe('FencingManager', () => {
+  const fencingManager = new FencingManager();
+  const send = (gid: string, event: GameEvent) =>
+    fencingManager.addEvent(gid, event, () => addGameEvent(gid, event));
+
+  // adds player to team 1
+  async function joinTeam(gid: string, id: string) {
+    await send(gid, makeEvent('updateDisplayName', {id, displayName: id}));
+    await send(gid, makeEvent('updateTeamId', {id, teamId: 1}));
+  }
+
+  it('tells fencing games apart', async () => {
+    const {pid} = await addPuzzle(makePuzzle(), false);
+    await addInitialGameEvent('classic-game', pid);
+    expect(await fencingManager.isFencingGame('classic-game')).toBe(false);
+    expect(await fencingManager.isFencingGame(await createFencingGame())).toBe(true);
+  });
+
+  it('rejects the events of users who are not on a team, without storing them', async () => {
+    const gid = await createFencingGame();
+    const updateCell = makeEvent('updateCell', {cell: {r: 0, c: 0}, value: 'A', id: 'spectator'});
+    await expect(send(gid, updateCell)).rejects.toThrow(
+      'Illegal updateCell event: user spectator is not on a team'
+    );
+    await send(gid, makeEvent('updateDisplayName', {id: 'spectator', displayName: 'Spectator'}));
+    await expect(send(gid, updateCell)).rejects.toThrow('Illegal updateCell event');
+    expect(_.map(await getGameEvents(gid), 'type')).toEqual(['create', 'updateDisplayName']);
+  });
+
+  it('rejects unknown teams and creating the game again', async () => {
+    const gid = await createFencingGame();
+    await send(gid, makeEvent('updateDisplayName', {id: 'player', displayName: 'Player'}));
+    await expect(send(gid, makeEvent('updateTeamId', {id: 'player', teamId: 3}))).rejects.toThrow(
+      'no team 3'
+    );
+    const [createEvent] = await getGameEvents(gid);
+    await expect(send(gid, {...createEvent, id: 'second-create'})).rejects.toThrow('game already exists');
+  });
+
+  it('accepts legal no-ops, e.g. checking a cell that is already correct', async () => {
+    const gid = await createFencingGame();
+    await joinTeam(gid, 'player');
+    await send(gid, makeEvent('updateCell', {cell: {r: 0, c: 0}, value: 'A', id: 'player'}));
+    await send(gid, makeEvent('check', {scope: [{r: 0, c: 0}], id: 'player'}));
+    await expect(send(gid, makeEvent('check', {scope: [{r: 0, c: 0}], id: 'player'}))).resolves.toMatchObject(
+      {
+        isDuplicate: false,
+      }
+    );
+    const state = await getGameState(gid, 'fencing');
+    expect(state!.users.player.score).toBe(1);
+  });
+
+  it('only checks and reveals one cell at a time', async () => {
+    const gid = await createFencingGame();
+    await joinTeam(gid, 'player');
+    const scope = [
+      {r: 0, c: 0},
+      {r: 0, c: 1},
+    ];
+    await expect(send(gid, makeEvent('check', {scope, id: 'player'}))).rejects.toThrow(
+      'only one cell can be checked at a time'
+    );
+    await expect(send(gid, makeEvent('reveal', {scope, id: 'player'}))).rejects.toThrow(
+      'only one cell can be revealed at a time'
+    );
+  });
+
+  it("doesn't change the state a check or reveal is applied to", async () => {
+    const gid = await createFencingGame();
+    await joinTeam(gid, 'player');
+    await send(gid, makeEvent('updateCell', {cell: {r: 0, c: 0}, value: 'A', id: 'player'}));
+    const state = (await getGameState(gid, 'fencing'))!;
+    // every clue of the small puzzle starts visible, so hide them for the check and reveal to show
+    const {across, down} = state.game!.clues;
+    const hidden = {across: _.map(across, () => false), down: _.map(down, () => false)};
+    const before = {
+      ...state,
+      game: {...state.game!, teamClueVisibility: {...state.game!.teamClueVisibility, 1: hidden}},
+    };
+    const copy = _.cloneDeep(before);
+    const scope = [{r: 0, c: 0}];
+    const afterCheck = fencingReducer(before, {type: 'check', params: {scope, id: 'player'}});
+    const afterReveal = fencingReducer(before, {type: 'reveal', params: {scope, id: 'player'}});
+    expect(before).toEqual(copy);
+    expect(afterCheck.game!.teamClueVisibility![1].across[1]).toBe(true);
+    expect(afterReveal.game!.teamClueVisibility![1].down[1]).toBe(true);
+  });
+
+  it("doesn't apply retried events twice", async () => {
+    const gid = await createFencingGame();
+    await joinTeam(gid, 'player');
+    await send(gid, makeEvent('updateCell', {cell: {r: 0, c: 0}, value: 'A', id: 'player'}));
+    const check = makeEvent('check', {scope: [{r: 0, c: 0}], id: 'player'});
+    await send(gid, check);
+    await expect(send(gid, check)).resolves.toMatchObject({isDuplicate: true});
+    expect((await getGameState(gid, 'fencing'))!.users.player.score).toBe(1);
+  });
+});
@@ -0,0 +1,156 @@
+import _ from 'lodash';
+import fencingReducer from '../src/shared/fencingGameEvents/gameReducer';
+import {initialState} from '../src/shared/fencingGameEvents/initialState';
+import {GameEvent as FencingGameEvent} from '../src/shared/fencingGameEvents/types/GameEvent';
+import {EventType} from '../src/shared/fencingGameEvents/types/GameEventType';
+import {GameState} from '../src/shared/fencingGameEvents/types/GameState';
+import {GameEvent, isFencingGame, isFencingGameEvent} from './model/game';
+import {getGameState} from './model/game_snapshot';
+
+// how many fencing games to keep the reduced state of in memory
+const MAX_CACHED_GAMES = 500;
+
+// why user id can't play in state: spectators (team 0) and unknown users can't touch the grid
+function getPlayerViolation(state: GameState, id: string) {
+  const teamId = state.users[id]?.teamId;
+  if (!teamId || !(teamId in state.teams)) {
+    return `user ${id} is not on a team`;
+  }
+  if (!state.game?.teamGrids?.[teamId]) {
+    return `team ${teamId} has no grid`;
+  }
+  return undefined;
+}
+
+function getUserViolation(state: GameState, id: string) {
+  return state.users[id] ? undefined : `no user ${id}`;
+}
+
+type FencingRules<K extends EventType> = {
+  [T in K]?: (state: GameState, params: FencingGameEvent<T>['params']) => string | undefined;
+};
+
+// The fencing rules, by event type: each returns why an event is illegal in state, if it is.
+// The event defs return the state unchanged for illegal events, but also for legal no-ops (e.g. checking a
+// cell that is already correct), so the rules are checked here instead.
+const fencingRules: FencingRules<EventType> = {
+  create: (state) => (state.loaded ? 'game already exists' : undefined),
+  updateCursor: (state, {id}) => getUserViolation(state, id),
+  updateTeamId: (state, {id, teamId}) =>
+    _.includes([0, 1, 2], teamId) ? getUserViolation(state, id) : `no team ${teamId}`,
+  updateTeamName: (state, {teamId}) => (teamId in state.teams ? undefined : `no team ${teamId}`),
+  updateCell: (state, {id}) => getPlayerViolation(state, id),
+  check: (state, {scope, id}) =>
+    scope.length === 1 && scope[0] ? getPlayerViolation(state, id) : 'only one cell can be checked at a time',
+  reveal: (state, {scope, id}) =>
+    scope.length === 1 && scope[0]
+      ? getPlayerViolation(state, id)
+      : 'only one cell can be revealed at a time',
+};
+
+function getRuleViolation<T extends EventType>(state: GameState, event: FencingGameEvent<T>) {
+  // narrowed to T, so that indexing it gives the rule for T's params
+  const rule = (fencingRules as FencingRules<T>)[event.type];
+  return rule?.(state, event.params);
+}
+
+// Applies a fencing event to state, throwing if the fencing rules don't allow it
+function reduceOrThrow(state: GameState, event: GameEvent): GameState {
+  if (!isFencingGameEvent(event)) {
+    return state; // not a fencing event (e.g. the classic chat event), so the rules don't apply
+  }
+  const violation = getRuleViolation(state, event);
+  if (violation) {
+    throw new Error(`Illegal ${event.type} event: ${violation}`);
+  }
+  try {
+    return fencingReducer(state, event);
+  } catch (e) {
+    throw new Error(`Illegal ${event.type} event: ${e.message}`);
+  }
+}
+
+// ============== Fencing Manager ==============
+
+/**
+ * Runs the fencing reducer on the server for games created with `fencing: true`, so that the
+ * events (and hence the scores) every client replays are the ones the server accepted.
+ */
+class FencingManager {
+  private fencingGids = new Map<string, boolean>();
+
+  private states = new Map<string, GameState>();
+
+  private queues = new Map<string, Promise<unknown>>();
+
+  async isFencingGame(gid: string) {
+    if (!this.fencingGids.has(gid)) {
+      const fencing = await isFencingGame(gid);
+      if (fencing === undefined) {
+        return false; // not created yet, so check again next time
+      }
+      this.fencingGids.set(gid, fencing);
+    }
+    return this.fencingGids.get(gid)!;
+  }
+
+  /**
+   * Checks event against the current state of gid, then stores it with `store`.
+   * Events of a gid are handled one at a time, in the order they arrive, so the state they are checked
+   * against matches the order they are persisted in.
+   */
+  addEvent<T extends {isDuplicate: boolean}>(gid: string, event: GameEvent, store: () => Promise<T>) {
+    return this.runExclusive(gid, async () => {
+      const state = await this.getState(gid);
+      const nextState = reduceOrThrow(state, event);
+      let result: T;
+      try {
+        result = await store();
+      } catch (e) {
+        this.states.delete(gid); // we no longer know what was persisted; reload on the next event
+        throw e;
+      }
+      if (!result.isDuplicate) {
+        this.setState(gid, nextState);
+      }
+      return result;
+    });
+  }
+
+  // drops the cached state of gid, e.g. after another server process stored an event of it.
+  // NOTE: events of one gid sent to two processes at once are each checked against that process's state
+  forgetState(gid: string) {
+    this.states.delete(gid);
+  }
+
+  private async getState(gid: string): Promise<GameState> {
+    if (!this.states.has(gid)) {
+      const state = (await getGameState(gid, 'fencing')) ?? initialState;
+      this.setState(gid, state);
+    }
+    return this.states.get(gid)!;
+  }
+
+  private setState(gid: string, state: GameState) {
+    // re-insert so that the Map's insertion order doubles as least-recently-used order
+    this.states.delete(gid);
+    this.states.set(gid, state);
+    if (this.states.size > MAX_CACHED_GAMES) {
+      this.states.delete(_.first(Array.from(this.states.keys()))!);
+    }
+  }
+
+  private runExclusive<T>(gid: string, fn: () => Promise<T>): Promise<T> {
+    const previous = this.queues.get(gid) ?? Promise.resolve();
+    const result = previous.catch(_.noop).then(fn);
+    this.queues.set(gid, result);
+    result.catch(_.noop).then(() => {
+      if (this.queues.get(gid) === result) {
+        this.queues.delete(gid);
+      }
+    });
+    return result;
+  }
+}
+
+export default FencingManager;
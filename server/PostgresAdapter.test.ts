@@ -0,0 +1,117 @@
+import {ChildProcess, spawn} from 'child_process';
+import http from 'http';
+import path from 'path';
+import _ from 'lodash';
+import {IdTokenResponse} from '@shared/types';
+import socketIoClient from 'socket.io-client';
+
+// Boots two server processes against the postgres database in PGDATABASE (migrated with `yarn migrate up`),
+// and checks that the broadcasts of one reach the sockets of the other. Skipped without a database
+const describeWithPostgres = process.env.PGDATABASE ? describe : describe.skip;
+
+// ts-node compiles the whole server on startup
+const STARTUP_TIMEOUT = 120000;
+
+const ports = [3091, 3092];
+const servers: ChildProcess[] = [];
+const clients: SocketIOClient.Socket[] = [];
+
+// resolves once the server listens on port
+function startServer(port: number) {
+  const server = spawn(
+    path.join(__dirname, '../node_modules/.bin/ts-node'),
+    ['-P', 'server/tsconfig.json', 'server/server.ts'],
+    {
+      cwd: path.join(__dirname, '..'),
+      env: {..._.omit(process.env, 'STORAGE'), PORT: String(port)},
+    }
+  );
+  servers.push(server);
+  return new Promise<void>((resolve, reject) => {
+    server.stdout!.on('data', (data: Buffer) => {
+      if (data.toString().includes(`Listening on port ${port}`)) {
+        resolve();
+      }
+    });
+    server.once('exit', (code) => reject(new Error(`The server on port ${port} exited with ${code}`)));
+  });
+}
+
+function requestIdToken(port: number, localId: string) {
+  return new Promise<string>((resolve, reject) => {
+    const request = http.request(
+      {port, method: 'POST', path: '/api/auth/id_token', headers: {'Content-Type': 'application/json'}},
+      (response) => {
+        let body = '';
+        response.on('data', (data: Buffer) => {
+          body += data.toString();
+        });
+        response.on('end', () => {
+          const {idToken}: IdTokenResponse = JSON.parse(body);
+          resolve(idToken);
+        });
+      }
+    );
+    request.on('error', reject);
+    request.end(JSON.stringify({localId}));
+  });
+}
+
+// connects to the server on port as a new local id
+async function connectAsNewPlayer(port: number) {
+  const id = _.uniqueId(`adapter-test-${Date.now()}-`);
+  const client = socketIoClient(`http://localhost:${port}`, {
+    query: {id, idToken: await requestIdToken(port, id)},
+    forceNew: true,
+    reconnection: false,
+    transports: ['websocket'],
+  });
+  clients.push(client);
+  await new Promise<void>((resolve, reject) => {
+    client.once('connect', resolve);
+    client.once('error', (error: string) => reject(new Error(error)));
+  });
+  return {id, client};
+}
+
+const emit = (client: SocketIOClient.Socket, event: string, data: unknown) =>
+  new Promise<any>((resolve) => client.emit(event, data, resolve));
+
+// resolves with the next event of type broadcast to client
+const receive = (client: SocketIOClient.Socket, type: string) =>
+  new Promise<any>((resolve) => client.once(type, resolve));
+
+describeWithPostgres('PostgresAdapter', () => {
+  beforeAll(async () => {
+    await Promise.all(ports.map(startServer));
+  }, STARTUP_TIMEOUT);
+
+  afterAll(() => {
+    clients.forEach((client) => client.close());
+    servers.forEach((server) => server.kill());
+  });
+
+  it('shares broadcasts between server processes', async () => {
+    const gid = _.uniqueId(`adapter-test-${Date.now()}-`);
+    const alice = await connectAsNewPlayer(ports[0]);
+    const bob = await connectAsNewPlayer(ports[1]);
+    await emit(alice.client, 'join_game', gid);
+    await emit(bob.client, 'join_game', gid);
+
+    const gameEvent = receive(bob.client, 'game_event');
+    const event = {
+      timestamp: Date.now(),
+      type: 'updateCell',
+      params: {cell: {r: 0, c: 0}, value: 'A', id: alice.id},
+      id: _.uniqueId('event-'),
+    };
+    const storedEvent = await emit(alice.client, 'game_event', {gid, event});
+    expect(storedEvent).toMatchObject({...event, seq: 1});
+    expect(await gameEvent).toEqual(storedEvent);
+
+    const presence = receive(alice.client, 'game_presence');
+    const cursor = {timestamp: Date.now(), type: 'updateCursor', params: {cell: {r: 1, c: 1}, id: bob.id}};
+    await emit(bob.client, 'game_presence', {gid, event: cursor});
+    expect(await presence).toEqual(cursor);
+  });
+});
@@ -0,0 +1,154 @@
+/// <reference path="./types/socket.io-adapter.d.ts" />
+import {PoolClient} from 'pg';
+import socketIo from 'socket.io';
+import Adapter from 'socket.io-adapter';
+import * as uuid from 'uuid';
+import {pool} from './model/pool';
+import {getSocketBroadcast, saveSocketBroadcast} from './model/socket_broadcast';
+
+// ============= Postgres Adapter ===========
+// The default socket.io adapter only reaches the sockets connected to this process.
+// This one also publishes every broadcast with NOTIFY, and replays the broadcasts of other processes
+// to its own sockets, so that several servers can share the game and room channels.
+// NOTE: broadcasts from different processes may arrive out of order; clients order events by seq.
+
+const CHANNEL = 'socket_broadcasts';
+// NOTIFY payloads must be shorter than 8000 bytes, so larger broadcasts (e.g. create events) are stored
+// in the socket_broadcasts table and only their id is sent
+const MAX_NOTIFY_PAYLOAD_BYTES = 7000;
+const RECONNECT_DELAY = 5000;
+
+interface Packet {
+  type: number;
+  data: any[];
+  nsp: string;
+}
+
+interface BroadcastOptions {
+  rooms?: string[];
+  except?: string[]; // socket ids, e.g. the sender of socket.broadcast.emit
+  flags?: {[flag: string]: boolean};
+}
+
+interface BroadcastMessage {
+  sender: string;
+  nsp: string;
+  packet: Packet;
+  rooms: string[];
+  except: string[];
+  flags: {[flag: string]: boolean};
+}
+
+// identifies this process, so that it skips its own notifications
+const processId = uuid.v4();
+
+// the adapter of each namespace in this process
+const adapters = new Map<string, PostgresAdapter>();
+
+async function publish(message: BroadcastMessage) {
+  let payload = JSON.stringify(message);
+  if (Buffer.byteLength(payload) > MAX_NOTIFY_PAYLOAD_BYTES) {
+    const id = await saveSocketBroadcast(message);
+    payload = JSON.stringify({sender: processId, id});
+  }
+  await pool.query('SELECT pg_notify($1, $2)', [CHANNEL, payload]);
+}
+
+async function receive(payload: string) {
+  const notification = JSON.parse(payload);
+  if (notification.sender === processId) {
+    return;
+  }
+  const message: BroadcastMessage | undefined =
+    notification.id !== undefined ? await getSocketBroadcast(notification.id) : notification;
+  if (!message) {
+    console.log(`socket broadcast ${notification.id} expired before it was received`);
+    return;
+  }
+  adapters.get(message.nsp)?.broadcastRemote(message);
+}
+
+// the connection of the pool held for LISTEN, until closePostgresAdapter
+let listenClient: PoolClient | undefined;
+let closed = false;
+
+// holds one connection of the pool for LISTEN; broadcasts sent while reconnecting are missed
+async function listen() {
+  const client = await pool.connect();
+  client.on('notification', ({payload}) => {
+    receive(payload!).catch((e) => {
+      console.log('failed to receive socket broadcast:', e.message);
+    });
+  });
+  client.on('error', (e) => {
+    if (listenClient !== client) {
+      return; // already released by closePostgresAdapter
+    }
+    console.log('lost the LISTEN connection, reconnecting...', e.message);
+    listenClient = undefined;
+    client.release(e);
+    setTimeout(listenUntilConnected, RECONNECT_DELAY);
+  });
+  listenClient = client;
+  await client.query(`LISTEN ${CHANNEL}`);
+}
+
+async function listenUntilConnected() {
+  if (closed) {
+    return;
+  }
+  try {
+    await listen();
+  } catch (e) {
+    console.log('failed to LISTEN for socket broadcasts, retrying...', e.message);
+    setTimeout(listenUntilConnected, RECONNECT_DELAY);
+  }
+}
+
+/**
+ * Emits 'remoteBroadcast' (event, data, rooms) for each broadcast received from another process,
+ * so that state kept in memory (see SocketManager) can follow along.
+ */
+class PostgresAdapter extends Adapter {
+  constructor(nsp: socketIo.Namespace) {
+    super(nsp);
+    adapters.set(nsp.name, this);
+  }
+
+  broadcast(packet: Packet, opts: BroadcastOptions) {
+    super.broadcast(packet, opts);
+    if (opts.flags?.local) {
+      return; // e.g. io.local.emit, for the sockets of this process only
+    }
+    const message: BroadcastMessage = {
+      sender: processId,
+      nsp: this.nsp.name,
+      packet,
+      rooms: opts.rooms || [],
+      except: opts.except || [],
+      flags: opts.flags || {},
+    };
+    publish(message).catch((e) => {
+      console.log('failed to publish socket broadcast:', e.message);
+    });
+  }
+
+  broadcastRemote({packet, rooms, except, flags}: BroadcastMessage) {
+    super.broadcast(packet, {rooms, except, flags});
+    const [event, data] = packet.data;
+    this.emit('remoteBroadcast', event, data, rooms);
+  }
+}
+
+export async function createPostgresAdapter() {
+  await listen();
+  return PostgresAdapter;
+}
+
+// stops receiving the broadcasts of other processes, and closes the LISTEN connection so that the pool can end
+export function closePostgresAdapter() {
+  closed = true;
+  const client = listenClient;
+  listenClient = undefined;
+  client?.release(true);
+}
@@ -0,0 +1,32 @@
+import {GameEvent} from './model/game';
+
+// ============== Presence Manager ==============
+
+/**
+ * Remembers the latest cursor of each user in each game, so that late joiners can be sent the
+ * current cursors. Presence events (cursors and pings) are relayed without being stored in game_events.
+ */
+class PresenceManager {
+  private cursors = new Map<string, Map<string, GameEvent>>();
+
+  addEvent(gid: string, event: GameEvent) {
+    if (event.type !== 'updateCursor') {
+      return; // pings fade out after a few seconds, so there is nothing to remember
+    }
+    if (!this.cursors.has(gid)) {
+      this.cursors.set(gid, new Map());
+    }
+    this.cursors.get(gid)!.set(event.params.id, event);
+  }
+
+  getEvents(gid: string): GameEvent[] {
+    return Array.from(this.cursors.get(gid)?.values() ?? []);
+  }
+
+  // called once the last socket leaves the game
+  clear(gid: string) {
+    this.cursors.delete(gid);
+  }
+}
+
+export default PresenceManager;
@@ -0,0 +1,32 @@
+import RateLimiter from './RateLimiter';
+
+describe('RateLimiter', () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = 1000000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('refuses requests once the bucket of a key is empty', () => {
+    const limiter = new RateLimiter({capacity: 2, perSecond: 1});
+    expect(limiter.take('a')).toBe(true);
+    expect(limiter.take('a')).toBe(true);
+    expect(limiter.take('a')).toBe(false);
+    expect(limiter.take('b')).toBe(true);
+  });
+
+  it('refills the bucket over time', () => {
+    const limiter = new RateLimiter({capacity: 2, perSecond: 0.5});
+    limiter.take('a');
+    limiter.take('a');
+    expect(limiter.getRetryAfter('a')).toBe(2);
+    now += 2000;
+    expect(limiter.take('a')).toBe(true);
+    expect(limiter.take('a')).toBe(false);
+  });
+});
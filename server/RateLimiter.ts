@@ -0,0 +1,65 @@
+// ============= Rate Limiter ===========
+// One token bucket per key (e.g. a socket id or an ip address): each bucket holds up to `capacity` tokens,
+// refilled at `perSecond` tokens per second, and every request takes one. Requests are refused once empty.
+
+// full buckets are forgotten, since a new bucket starts full anyway
+const CLEANUP_INTERVAL = 60000;
+
+export interface RateLimit {
+  capacity: number;
+  perSecond: number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+class RateLimiter {
+  limit: RateLimit;
+
+  buckets = new Map<string, Bucket>();
+
+  constructor(limit: RateLimit) {
+    this.limit = limit;
+    setInterval(() => this.cleanUp(), CLEANUP_INTERVAL).unref();
+  }
+
+  private refill(key: string, now: number) {
+    const bucket = this.buckets.get(key) ?? {tokens: this.limit.capacity, updatedAt: now};
+    bucket.tokens = Math.min(
+      this.limit.capacity,
+      bucket.tokens + ((now - bucket.updatedAt) / 1000) * this.limit.perSecond
+    );
+    bucket.updatedAt = now;
+    this.buckets.set(key, bucket);
+    return bucket;
+  }
+
+  // returns false (and takes nothing) if the bucket of key is empty
+  take(key: string) {
+    const bucket = this.refill(key, Date.now());
+    if (bucket.tokens < 1) {
+      return false;
+    }
+    bucket.tokens -= 1;
+    return true;
+  }
+
+  // how long until the bucket of key holds a token again, in seconds
+  getRetryAfter(key: string) {
+    const bucket = this.refill(key, Date.now());
+    return Math.max(0, Math.ceil((1 - bucket.tokens) / this.limit.perSecond));
+  }
+
+  private cleanUp() {
+    const now = Date.now();
+    Array.from(this.buckets.keys()).forEach((key) => {
+      if (this.refill(key, now).tokens >= this.limit.capacity) {
+        this.buckets.delete(key);
+      }
+    });
+  }
+}
+
+export default RateLimiter;
@@ -0,0 +1,308 @@
+import http from 'http';
+import {AddressInfo} from 'net';
+import _ from 'lodash';
+import socketIo from 'socket.io';
+import socketIoClient from 'socket.io-client';
+import {addGameEvent, addInitialGameEvent, addServerGameEvent, GameEvent, getGameEvents} from './model/game';
+import {addPuzzle} from './model/puzzle';
+import {issueIdToken} from './model/user';
+import SocketManager from './SocketManager';
+import {makePuzzle} from './testUtils';
+
+// the default capacity of the chatMessages bucket, see rateLimits.ts
+const CHAT_MESSAGES = 10;
+
+const server = new http.Server();
+const io = socketIo(server);
+const socketManager = new SocketManager(io);
+const clients: SocketIOClient.Socket[] = [];
+let url: string;
+beforeAll(async () => {
+  socketManager.listen();
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  url = `http://localhost:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  clients.forEach((client) => client.close());
+  await new Promise<void>((resolve) => io.close(() => resolve()));
+});
+
+function connect(query: {id?: string; idToken?: string}) {
+  const client = socketIoClient(url, {query, forceNew: true, reconnection: false, transports: ['websocket']});
+  clients.push(client);
+  return client;
+}
+
+// resolves once connected, or rejects with the error the server refused the connection with
+function waitForConnection(client: SocketIOClient.Socket) {
+  return new Promise<void>((resolve, reject) => {
+    client.once('connect', resolve);
+    client.once('error', (error: string) => reject(new Error(error)));
+  });
+}
+
+// connects as a new local id, with its id token
+async function connectAsNewPlayer() {
+  const id = _.uniqueId('player-');
+  const client = connect({id, idToken: await issueIdToken(id)});
+  await waitForConnection(client);
+  return {id, client};
+}
+
+// emits the event and resolves with its ack
+const emit = (client: SocketIOClient.Socket, event: string, data: unknown) =>
+  new Promise<any>((resolve) => client.emit(event, data, resolve));
+
+// the events of type broadcast to client
+function collect(client: SocketIOClient.Socket, type: string) {
+  const events: any[] = [];
+  client.on(type, (event: any) => events.push(event));
+  return events;
+}
+
+const newGid = () => _.uniqueId('game-');
+
+const updateCell = (id: string, value: string) => ({
+  timestamp: {'.sv': 'timestamp'},
+  type: 'updateCell',
+  params: {cell: {r: 0, c: 0}, value, id},
+  id: _.uniqueId('event-'),
+});
+
+describe('authentication', () => {
+  it('refuses sockets without the id token of their id', async () => {
+    const {id} = await connectAsNewPlayer();
+    await expect(waitForConnection(connect({id}))).rejects.toThrow(`Invalid id token for ${id}`);
+    await expect(waitForConnection(connect({id, idToken: 'guessed token'}))).rejects.toThrow(
+      'Invalid id token'
+    );
+    await expect(waitForConnection(connect({}))).rejects.toThrow('Missing id');
+  });
+});
+
+describe('sync_all_game_events', () => {
+  it('returns the events of the game and the cursors of its players', async () => {
+    const gid = newGid();
+    const {pid} = await addPuzzle(makePuzzle(), false);
+    await addInitialGameEvent(gid, pid);
+    const alice = await connectAsNewPlayer();
+    expect(_.map(await emit(alice.client, 'sync_all_game_events', gid), 'type')).toEqual(['create']);
+    const {events, presence} = await emit(alice.client, 'sync_all_game_events', {gid, reducer: 'classic'});
+    expect(_.map(events, 'type')).toEqual(['create']);
+    expect(presence).toEqual([]);
+  });
+
+  it('acks an error for malformed requests', async () => {
+    const alice = await connectAsNewPlayer();
+    expect(await emit(alice.client, 'sync_all_game_events', null)).toEqual({
+      error: expect.stringContaining('Invalid sync_all_game_events request'),
+    });
+    expect(await emit(alice.client, 'sync_all_game_events', {gid: newGid(), reducer: 'other'})).toEqual({
+      error: expect.stringContaining('"reducer" must be one of [classic, fencing]'),
+    });
+  });
+
+  it('refuses events sent without an ack', async () => {
+    const alice = await connectAsNewPlayer();
+    const error = new Promise((resolve) => alice.client.once('error', resolve));
+    alice.client.emit('sync_all_game_events', null);
+    expect(await error).toBe('Missing ack for sync_all_game_events');
+    expect(await emit(alice.client, 'sync_all_game_events', newGid())).toEqual([]);
+  });
+});
+
+describe('sync_game_events_since', () => {
+  it('returns the events after the last one the client has seen', async () => {
+    const gid = newGid();
+    const alice = await connectAsNewPlayer();
+    const acks = [];
+    for (const value of ['A', 'B', 'C']) {
+      // eslint-disable-next-line no-await-in-loop
+      acks.push(await emit(alice.client, 'game_event', {gid, event: updateCell(alice.id, value)}));
+    }
+    const sync = (request: object) => emit(alice.client, 'sync_game_events_since', {gid, ...request});
+    expect(_.map(await sync({afterSeq: 1}), 'seq')).toEqual([2, 3]);
+    expect(await sync({afterSeq: 3})).toEqual([]);
+    // events can share a millisecond, so those at exactly `since` are included
+    expect(_.map(await sync({since: acks[1].timestamp}), 'seq')).toEqual(expect.arrayContaining([2, 3]));
+    expect(await sync({since: acks[2].timestamp + 1})).toEqual([]);
+  });
+
+  it('acks an error for malformed requests', async () => {
+    const alice = await connectAsNewPlayer();
+    const error = {error: expect.stringContaining('Invalid sync_game_events_since request')};
+    expect(await emit(alice.client, 'sync_game_events_since', null)).toEqual(error);
+    expect(await emit(alice.client, 'sync_game_events_since', {gid: newGid(), afterSeq: 'x'})).toEqual(error);
+    expect(await emit(alice.client, 'sync_game_events_since', {gid: newGid()})).toEqual(error);
+    expect(await emit(alice.client, 'sync_game_events_since', {afterSeq: 0})).toEqual(error);
+  });
+});
+
+describe('game events', () => {
+  it('are stored in order and broadcast to the other players of the game', async () => {
+    const gid = newGid();
+    const alice = await connectAsNewPlayer();
+    const bob = await connectAsNewPlayer();
+    await emit(alice.client, 'join_game', gid);
+    await emit(bob.client, 'join_game', gid);
+    const received = collect(bob.client, 'game_event');
+
+    const acks = await Promise.all(
+      ['A', 'B', 'C'].map((value) =>
+        emit(alice.client, 'game_event', {gid, event: updateCell(alice.id, value)})
+      )
+    );
+    expect(_.map(acks, 'seq')).toEqual([1, 2, 3]);
+    expect(acks[0].timestamp).toEqual(expect.any(Number));
+
+    const events = await emit(bob.client, 'sync_all_game_events', gid);
+    expect(_.map(events, 'seq')).toEqual([1, 2, 3]);
+    expect(_.map(events, 'params.value')).toEqual(['A', 'B', 'C']);
+    expect(_.map(received, 'seq')).toEqual([1, 2, 3]);
+  });
+
+  it('store and broadcast a retried event once', async () => {
+    const gid = newGid();
+    const alice = await connectAsNewPlayer();
+    await emit(alice.client, 'join_game', gid);
+    const received = collect(alice.client, 'game_event');
+    const event = updateCell(alice.id, 'A');
+    const first = await emit(alice.client, 'game_event', {gid, event});
+    const retry = await emit(alice.client, 'game_event', {gid, event});
+    await emit(alice.client, 'game_event', {gid, event: updateCell(alice.id, 'B')});
+
+    expect(retry).toEqual(first);
+    expect(_.map(received, 'seq')).toEqual([1, 2]);
+    expect(await emit(alice.client, 'sync_all_game_events', gid)).toHaveLength(2);
+  });
+
+  it('are rejected if malformed or sent as someone else', async () => {
+    const gid = newGid();
+    const alice = await connectAsNewPlayer();
+    const bob = await connectAsNewPlayer();
+    expect(await emit(alice.client, 'game_event', {gid, event: updateCell(bob.id, 'A')})).toEqual({
+      error: `Invalid sender: params.id is ${bob.id}, but this socket is ${alice.id}`,
+    });
+    expect(await emit(alice.client, 'game_event', {gid, event: updateCell(null as any, 'A')})).toEqual({
+      error: expect.stringContaining('Invalid'),
+    });
+    expect(await emit(alice.client, 'game_event', {gid, event: {type: 'updateCell'}})).toEqual({
+      error: expect.stringContaining('Invalid game event'),
+    });
+    expect(await emit(alice.client, 'sync_all_game_events', gid)).toEqual([]);
+  });
+
+  it('are checked against the rules of fencing games', async () => {
+    const gid = newGid();
+    const {pid} = await addPuzzle(makePuzzle(), false);
+    await addInitialGameEvent(gid, pid, {fencing: true});
+    const alice = await connectAsNewPlayer();
+    expect(await emit(alice.client, 'game_event', {gid, event: updateCell(alice.id, 'A')})).toEqual({
+      error: `Illegal updateCell event: user ${alice.id} is not on a team`,
+    });
+  });
+
+  it('are rate limited', async () => {
+    const gid = newGid();
+    const alice = await connectAsNewPlayer();
+    const chat = () => ({
+      timestamp: Date.now(),
+      type: 'chat',
+      params: {text: 'hi', senderId: alice.id, sender: 'Alice'},
+      id: _.uniqueId('event-'),
+    });
+    const acks = [];
+    for (let i = 0; i <= CHAT_MESSAGES; i += 1) {
+      // eslint-disable-next-line no-await-in-loop
+      acks.push(await emit(alice.client, 'game_event', {gid, event: chat()}));
+    }
+    expect(_.last(acks)).toEqual({error: 'Too many chat messages, slow down'});
+    expect(await emit(alice.client, 'sync_all_game_events', gid)).toHaveLength(CHAT_MESSAGES);
+  });
+});
+
+describe('game presence', () => {
+  it('relays cursors without storing them, and remembers them for syncing', async () => {
+    const gid = newGid();
+    const alice = await connectAsNewPlayer();
+    const bob = await connectAsNewPlayer();
+    await emit(alice.client, 'join_game', gid);
+    await emit(bob.client, 'join_game', gid);
+    const received = collect(bob.client, 'game_presence');
+    const cursor = {timestamp: Date.now(), type: 'updateCursor', params: {cell: {r: 1, c: 2}, id: alice.id}};
+    expect(await emit(alice.client, 'game_presence', {gid, event: cursor})).toBeUndefined();
+
+    const {events, presence} = await emit(bob.client, 'sync_all_game_events', {gid});
+    expect(events).toEqual([]);
+    expect(presence).toEqual([cursor]);
+    expect(received).toEqual([cursor]);
+  });
+
+  it("are rejected for games the socket hasn't joined", async () => {
+    const gid = newGid();
+    const alice = await connectAsNewPlayer();
+    const cursor = {timestamp: Date.now(), type: 'updateCursor', params: {cell: {r: 0, c: 0}, id: alice.id}};
+    expect(await emit(alice.client, 'game_presence', {gid, event: cursor})).toEqual({
+      error: `Not in game ${gid}`,
+    });
+
+    const {presence} = await emit(alice.client, 'sync_all_game_events', {gid});
+    expect(presence).toEqual([]);
+  });
+});
+
+describe('server game events', () => {
+  it('are stored in fencing games after the events being checked, then broadcast', async () => {
+    const gid = newGid();
+    const {pid} = await addPuzzle(makePuzzle(), false);
+    await addInitialGameEvent(gid, pid, {fencing: true});
+    const alice = await connectAsNewPlayer();
+    await emit(alice.client, 'join_game', gid);
+    const broadcast = new Promise((resolve) => alice.client.once('game_event', resolve));
+
+    // a player event still being stored
+    let storePlayerEvent = _.noop;
+    const canStore = new Promise((resolve) => {
+      storePlayerEvent = resolve;
+    });
+    const playerEvent: GameEvent = {
+      timestamp: Date.now(),
+      type: 'updateDisplayName',
+      params: {id: alice.id, displayName: 'Alice'},
+      id: _.uniqueId('event-'),
+    };
+    const addingPlayerEvent = socketManager.fencingManager.addEvent(gid, playerEvent, async () => {
+      await canStore;
+      return addGameEvent(gid, playerEvent);
+    });
+    const {grid: solution, info, clues} = makePuzzle();
+    const addingServerEvent = addServerGameEvent(gid, {
+      timestamp: Date.now(),
+      type: 'updatePuzzle',
+      params: {info, solution, clues},
+    });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(_.map(await getGameEvents(gid), 'type')).toEqual(['create']);
+
+    storePlayerEvent();
+    await Promise.all([addingPlayerEvent, addingServerEvent]);
+    expect(_.map(await getGameEvents(gid), 'type')).toEqual(['create', 'updateDisplayName', 'updatePuzzle']);
+    expect(await broadcast).toMatchObject({type: 'updatePuzzle', seq: 3});
+  });
+});
+
+// drains the shared server, so it goes last
+describe('drain', () => {
+  it('closes the connections and refuses new sockets', async () => {
+    const alice = await connectAsNewPlayer();
+    const disconnected = new Promise((resolve) => alice.client.once('disconnect', resolve));
+    await socketManager.drain();
+    expect(await disconnected).toBe('transport close');
+
+    const id = _.uniqueId('player-');
+    await expect(waitForConnection(connect({id, idToken: await issueIdToken(id)}))).rejects.toThrow(
+      'Server is shutting down'
+    );
+  });
+});
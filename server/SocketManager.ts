@@ -1,9 +1,36 @@
 // ============= Server Values ===========
 
 import {RoomEvent} from '@shared/roomEvents';
+import {SyncAllGameEventsRequest, SyncAllGameEventsResponse, SyncGameEventsSinceRequest} from '@shared/types';
+import _ from 'lodash';
 import socketIo from 'socket.io';
-import {addGameEvent, GameEvent, getGameEvents} from './model/game';
+import {
+  addGameEvent,
+  GameEvent,
+  getGameEvents,
+  getGameEventsAfter,
+  getGameEventsSinceTimestamp,
+  serverGameEvents,
+  setServerGameEventQueue,
+} from './model/game';
+import {getCompactedGameEvents} from './model/game_snapshot';
+import {
+  validateGameEvent,
+  validateGameEventSender,
+  validatePresenceEvent,
+  validateRoomEvent,
+  validateRoomEventSender,
+  validateSyncAllGameEventsRequest,
+  validateSyncGameEventsSinceRequest,
+} from './eventValidators';
+import FencingManager from './FencingManager';
+import {rejectedSocketEventsTotal, socketEventsTotal} from './metrics';
+import PresenceManager from './PresenceManager';
+import {limitSocketEvent} from './rateLimits';
 import {addRoomEvent, getRoomEvents} from './model/room';
+import {recordGameJoin} from './model/user_game';
+import {authenticateSocket} from './model/user';
+import type {SocketIdentity} from './model/user';
 
 interface SocketEvent {
   [key: string]: any;
@@ -30,24 +57,180 @@ function assignTimestamp(event: SocketEvent) {
 class SocketManager {
   io: socketIo.Server;
 
+  fencingManager: FencingManager;
+
+  presenceManager: PresenceManager;
+
+  // set by drain(), once the server is shutting down
+  draining = false;
+
+  // the game and room events being stored, see drain()
+  pendingWrites = new Set<Promise<void>>();
+
+  // the ids whose join of each game was already recorded by this process, see recordGameJoin
+  recordedJoins = new Map<string, Set<string>>();
+
+  // who each socket authenticated as during the handshake
+  identities = new WeakMap<socketIo.Socket, SocketIdentity>();
+
   constructor(io: socketIo.Server) {
     this.io = io;
+    this.fencingManager = new FencingManager();
+    this.presenceManager = new PresenceManager();
   }
 
-  async addGameEvent(gid: string, event: SocketEvent) {
+  // returns the stored event; retries of an already stored event are not broadcast again.
+  // throws if the event is malformed, not sent as senderId, or breaks the rules of a fencing game
+  async addGameEvent(gid: string, event: SocketEvent, senderId: string) {
     const gameEvent: GameEvent = assignTimestamp(event);
-    await addGameEvent(gid, gameEvent);
-    this.io.to(`game-${gid}`).emit('game_event', gameEvent);
+    validateGameEvent(gameEvent);
+    validateGameEventSender(gameEvent, senderId);
+    const {event: storedEvent, isDuplicate} = (await this.fencingManager.isFencingGame(gid))
+      ? await this.fencingManager.addEvent(gid, gameEvent, () => addGameEvent(gid, gameEvent))
+      : await addGameEvent(gid, gameEvent);
+    if (!isDuplicate) {
+      socketEventsTotal.inc({channel: 'game_event', event_type: storedEvent.type});
+      this.io.to(`game-${gid}`).emit('game_event', storedEvent);
+      if (storedEvent.type === 'updateCell' && storedEvent.params.id) {
+        this.recordGameJoin(gid, storedEvent.params.id);
+      }
+    }
+    return storedEvent;
+  }
+
+  // adds the game to the history of the user on their first updateCell; failing to do so doesn't fail the event
+  recordGameJoin(gid: string, id: string) {
+    const recorded = this.recordedJoins.get(gid) ?? new Set<string>();
+    if (recorded.has(id)) {
+      return;
+    }
+    this.recordedJoins.set(gid, recorded.add(id));
+    this.trackWrite(recordGameJoin(id, gid)).catch((e) => {
+      recorded.delete(id);
+      console.log(`failed to record that ${id} joined ${gid}:`, e.message);
+    });
   }
 
-  async addRoomEvent(rid: string, event: SocketEvent) {
+  // relays a cursor or ping to the game without storing it. throws if the event is malformed, not sent as senderId
+  // or sent to a game the socket hasn't joined, which would leave a cursor nobody clears (see forgetGameIfEmpty)
+  addPresenceEvent(gid: string, event: SocketEvent, senderId: string, socket: socketIo.Socket) {
+    if (!socket.rooms[`game-${gid}`]) {
+      throw new Error(`Not in game ${gid}`);
+    }
+    const presenceEvent: GameEvent = assignTimestamp(event);
+    validatePresenceEvent(presenceEvent);
+    validateGameEventSender(presenceEvent, senderId);
+    this.presenceManager.addEvent(gid, presenceEvent);
+    socketEventsTotal.inc({channel: 'game_presence', event_type: presenceEvent.type});
+    this.io.to(`game-${gid}`).emit('game_presence', presenceEvent);
+  }
+
+  // forgets the cursors and recorded joins of gid once no sockets are left in it
+  forgetGameIfEmpty(gid: string) {
+    if (!this.io.sockets.adapter.rooms[`game-${gid}`]) {
+      this.presenceManager.clear(gid);
+      this.recordedJoins.delete(gid);
+    }
+  }
+
+  // throws if the event is malformed or not sent as senderId
+  async addRoomEvent(rid: string, event: SocketEvent, senderId: string) {
     const roomEvent: RoomEvent = assignTimestamp(event);
-    await addRoomEvent(rid, roomEvent);
-    this.io.to(`room-${rid}`).emit('room_event', roomEvent);
+    validateRoomEvent(roomEvent);
+    validateRoomEventSender(roomEvent, senderId);
+    const storedEvent = await addRoomEvent(rid, roomEvent);
+    socketEventsTotal.inc({channel: 'room_event', event_type: storedEvent.type});
+    this.io.to(`room-${rid}`).emit('room_event', storedEvent);
+  }
+
+  trackWrite<T>(write: Promise<T>) {
+    const settled = write.then(
+      () => {},
+      () => {}
+    );
+    this.pendingWrites.add(settled);
+    settled.then(() => this.pendingWrites.delete(settled));
+    return write;
+  }
+
+  /**
+   * Prepares this process to shut down: stops accepting sockets and events, waits for the events already
+   * being stored, then closes every connection so that clients reconnect (to another server).
+   * Events sent while draining are not acked, so clients retry them once reconnected.
+   */
+  async drain() {
+    this.draining = true;
+    await Promise.all(Array.from(this.pendingWrites));
+    Object.values(this.io.sockets.connected).forEach((socket) => {
+      // closing the connection (rather than disconnecting the socket) lets the client reconnect on its own
+      socket.conn.close();
+    });
+  }
+
+  // keeps the in-memory state of this process in sync with the events broadcast by other server processes
+  handleRemoteBroadcast(event: string, data: any, rooms: string[]) {
+    rooms
+      .filter((room) => room.startsWith('game-'))
+      .forEach((room) => {
+        const gid = room.substring('game-'.length);
+        if (event === 'game_presence' && this.io.sockets.adapter.rooms[room]) {
+          this.presenceManager.addEvent(gid, data); // only remembered while someone here is in the game
+        } else if (event === 'game_event') {
+          this.fencingManager.forgetState(gid);
+        }
+      });
+  }
+
+  // broadcasts the events stored by the server itself (e.g. updatePuzzle)
+  handleServerGameEvent(gid: string, event: GameEvent) {
+    socketEventsTotal.inc({channel: 'game_event', event_type: event.type});
+    this.io.to(`game-${gid}`).emit('game_event', event);
   }
 
   listen() {
+    setServerGameEventQueue(async (gid, event, store) =>
+      (await this.fencingManager.isFencingGame(gid))
+        ? this.fencingManager.addEvent(gid, event, store)
+        : store()
+    );
+    serverGameEvents.on('game_event', (gid: string, event: GameEvent) =>
+      this.handleServerGameEvent(gid, event)
+    );
+    this.io.sockets.adapter.on('remoteBroadcast', (event: string, data: any, rooms: string[]) =>
+      this.handleRemoteBroadcast(event, data, rooms)
+    );
+    this.io.use((socket, next) => {
+      if (this.draining) {
+        next(new Error('Server is shutting down'));
+        return;
+      }
+      next();
+    });
+    // the client sends the id it plays as, its id token and its session token (if logged in),
+    // see src/sockets/getSocket.ts
+    this.io.use(async (socket, next) => {
+      try {
+        const {id, idToken, token} = socket.handshake.query;
+        this.identities.set(socket, await authenticateSocket(id, idToken, token));
+        next();
+      } catch (e) {
+        console.log('rejected socket:', e.message);
+        next(e);
+      }
+    });
     this.io.on('connection', (socket) => {
+      const {id: senderId} = this.identities.get(socket)!;
+
+      // every event is sent with an ack (see src/sockets/emitAsync.ts), which the handlers below call.
+      // Without one, calling it would throw in the async handler, which would crash the process
+      socket.use((packet, next) => {
+        if (typeof _.last(packet) !== 'function') {
+          next(new Error(`Missing ack for ${packet[0]}`));
+          return;
+        }
+        next();
+      });
+
       // ======== Game Events ========= //
       // NOTICE: join is deprecated in favor of sync_all_game_events
       // TODO remove once #142 is fully deployed
@@ -62,10 +245,20 @@ class SocketManager {
       });
 
       socket.on('leave_game', async (gid, ack) => {
-        socket.leave(`game-${gid}`);
+        socket.leave(`game-${gid}`, () => this.forgetGameIfEmpty(gid));
         ack();
       });
 
+      socket.on('disconnecting', () => {
+        Object.keys(socket.rooms)
+          .filter((room) => room.startsWith('game-'))
+          .forEach((room) => {
+            const gid = room.substring('game-'.length);
+            // the socket only leaves its rooms after this handler, so wait for it
+            setImmediate(() => this.forgetGameIfEmpty(gid));
+          });
+      });
+
       // NOTICE: sync_all is deprecated in favor of sync_all_game_events
       // TODO remove once #142 is fully deployed
       socket.on('sync_all', async (gid, ack) => {
@@ -73,14 +266,71 @@ class SocketManager {
         ack(events);
       });
 
-      socket.on('sync_all_game_events', async (gid, ack) => {
-        const events = await getGameEvents(gid);
-        ack(events);
+      // accepts either a gid, acked with the events of the game, or a SyncAllGameEventsRequest, acked with
+      // a SyncAllGameEventsResponse (with a snapshot + the events after it if a reducer is given)
+      socket.on('sync_all_game_events', async (request: string | SyncAllGameEventsRequest, ack) => {
+        try {
+          if (typeof request === 'string') {
+            const events = await getGameEvents(request);
+            ack(events);
+            return;
+          }
+          validateSyncAllGameEventsRequest(request);
+          const events = request.reducer
+            ? await getCompactedGameEvents(request.gid, request.reducer)
+            : await getGameEvents(request.gid);
+          const response: SyncAllGameEventsResponse = {
+            events,
+            presence: this.presenceManager.getEvents(request.gid),
+          };
+          ack(response);
+        } catch (e) {
+          console.log('rejected sync_all_game_events:', e.message);
+          ack({error: e.message});
+        }
+      });
+
+      // used to catch up after a reconnect. With a timestamp, events at exactly `since` are included, as
+      // several events can share a millisecond, so clients should skip the ones they already have
+      socket.on('sync_game_events_since', async (request: SyncGameEventsSinceRequest, ack) => {
+        try {
+          validateSyncGameEventsSinceRequest(request);
+          const {gid, afterSeq, since} = request;
+          const events =
+            afterSeq !== undefined
+              ? await getGameEventsAfter(gid, afterSeq)
+              : await getGameEventsSinceTimestamp(gid, since!);
+          ack(events);
+        } catch (e) {
+          console.log('rejected sync_game_events_since:', e.message);
+          ack({error: e.message});
+        }
       });
 
       socket.on('game_event', async (message, ack) => {
-        await this.addGameEvent(message.gid, message.event);
-        ack();
+        if (this.draining) return;
+        try {
+          limitSocketEvent(socket, senderId, message?.event?.type);
+          const storedEvent = await this.trackWrite(this.addGameEvent(message.gid, message.event, senderId));
+          ack(storedEvent);
+        } catch (e) {
+          console.log(`rejected game_event for ${message?.gid}:`, e.message);
+          rejectedSocketEventsTotal.inc({channel: 'game_event'});
+          ack({error: e.message});
+        }
+      });
+
+      socket.on('game_presence', async (message, ack) => {
+        if (this.draining) return;
+        try {
+          limitSocketEvent(socket, senderId);
+          this.addPresenceEvent(message.gid, message.event, senderId, socket);
+          ack();
+        } catch (e) {
+          console.log(`rejected game_presence for ${message?.gid}:`, e.message);
+          rejectedSocketEventsTotal.inc({channel: 'game_presence'});
+          ack({error: e.message});
+        }
       });
 
       // ======== Room Events ========= //
@@ -100,8 +350,16 @@ class SocketManager {
       });
 
       socket.on('room_event', async (message, ack) => {
-        await this.addRoomEvent(message.rid, message.event);
-        ack();
+        if (this.draining) return;
+        try {
+          limitSocketEvent(socket, senderId);
+          await this.trackWrite(this.addRoomEvent(message.rid, message.event, senderId));
+          ack();
+        } catch (e) {
+          console.log(`rejected room_event for ${message?.rid}:`, e.message);
+          rejectedSocketEventsTotal.inc({channel: 'room_event'});
+          ack({error: e.message});
+        }
       });
     });
   }
@@ -0,0 +1,29 @@
+import _ from 'lodash';
+import {ApiServer, startApiServer} from '../testUtils';
+
+// the default capacity of the ipAuth bucket, see rateLimits.ts
+const AUTH_REQUESTS = 10;
+
+let api: ApiServer;
+beforeAll(async () => {
+  api = await startApiServer();
+});
+afterAll(() => api.close());
+
+describe('/api/auth', () => {
+  it('limits logging in, but not asking for id tokens, to a few requests per ip address', async () => {
+    const logIn = () => api.request('POST', '/auth/login', {username: 'nobody', password: 'wrong password'});
+    for (let i = 0; i < AUTH_REQUESTS; i += 1) {
+      // eslint-disable-next-line no-await-in-loop
+      expect((await logIn()).status).toBe(401);
+    }
+    expect(await logIn()).toMatchObject({status: 429, body: {error: 'Too many requests, retry later'}});
+
+    const idTokens = await Promise.all(
+      _.times(AUTH_REQUESTS + 1, () =>
+        api.request('POST', '/auth/id_token', {localId: _.uniqueId('local-id-')})
+      )
+    );
+    expect(_.map(idTokens, 'status')).toEqual(_.times(AUTH_REQUESTS + 1, () => 200));
+  });
+});
@@ -0,0 +1,135 @@
+import express from 'express';
+import {
+  AuthResponse,
+  GetMeResponse,
+  IdTokenRequest,
+  IdTokenResponse,
+  LinkLocalIdRequest,
+  LinkLocalIdResponse,
+  LogInRequest,
+  LogOutResponse,
+  SignUpRequest,
+} from '@shared/types';
+import {
+  getSessionUid,
+  getUser,
+  issueIdToken,
+  linkLocalId,
+  logIn,
+  logOut,
+  ownsLocalId,
+  signUp,
+} from '../model/user';
+import {limitRequests} from '../rateLimits';
+
+const router = express.Router();
+
+// the session token from the "Authorization: Bearer <token>" header
+export function getSessionToken(req: express.Request) {
+  const match = (req.headers.authorization || '').match(/^Bearer (\S+)$/);
+  return match?.[1];
+}
+
+// sets res.locals.uid to the uid of the session, if any
+export const identifyUser: express.RequestHandler = async (req, res, next) => {
+  try {
+    res.locals.uid = await getSessionUid(getSessionToken(req));
+    next();
+  } catch (e) {
+    next(e);
+  }
+};
+
+// sets res.locals.uid to the uid of the session, or responds with a 401
+export const requireUser: express.RequestHandler = async (req, res, next) => {
+  try {
+    const uid = await getSessionUid(getSessionToken(req));
+    if (!uid) {
+      res.status(401).json({error: 'Not logged in'});
+      return;
+    }
+    res.locals.uid = uid;
+    next();
+  } catch (e) {
+    next(e);
+  }
+};
+
+// the id token from the "X-Id-Token" header, see getIdToken in src/api/auth.ts
+function getIdToken(req: express.Request) {
+  return req.get('X-Id-Token');
+}
+
+// responds with a 403 unless the request proves that it plays as the local id :uid, see ownsLocalId
+export const requireLocalId: express.RequestHandler<{uid: string}> = async (req, res, next) => {
+  try {
+    if (!(await ownsLocalId(req.params.uid, getIdToken(req), getSessionToken(req)))) {
+      res.status(403).json({error: `Not playing as ${req.params.uid}`});
+      return;
+    }
+    next();
+  } catch (e) {
+    next(e);
+  }
+};
+
+router.post<{}, AuthResponse, SignUpRequest>('/signup', limitRequests('ipAuth'), async (req, res, next) => {
+  try {
+    res.json(await signUp(req.body.username, req.body.password, req.body.localId, req.body.idToken));
+  } catch (e) {
+    next(e);
+  }
+});
+
+router.post<{}, AuthResponse, LogInRequest>('/login', limitRequests('ipAuth'), async (req, res, next) => {
+  try {
+    res.json(await logIn(req.body.username, req.body.password, req.body.localId, req.body.idToken));
+  } catch (e) {
+    next(e);
+  }
+});
+
+router.post<{}, LogOutResponse>('/logout', limitRequests('ipAuth'), requireUser, async (req, res, next) => {
+  try {
+    await logOut(getSessionToken(req)!);
+    res.json({});
+  } catch (e) {
+    next(e);
+  }
+});
+
+router.get<{}, GetMeResponse>('/me', requireUser, async (req, res, next) => {
+  try {
+    res.json({user: await getUser(res.locals.uid)});
+  } catch (e) {
+    next(e);
+  }
+});
+
+// every new browser asks for an id token when it first connects, so this has a looser limit than logging in
+router.post<{}, IdTokenResponse, IdTokenRequest>(
+  '/id_token',
+  limitRequests('ipIdTokens'),
+  async (req, res, next) => {
+    try {
+      res.json({idToken: await issueIdToken(req.body.localId, getSessionToken(req))});
+    } catch (e) {
+      next(e);
+    }
+  }
+);
+
+router.post<{}, LinkLocalIdResponse, LinkLocalIdRequest>(
+  '/link_local_id',
+  limitRequests('ipAuth'),
+  requireUser,
+  async (req, res, next) => {
+    try {
+      res.json({user: await linkLocalId(res.locals.uid, req.body.localId, req.body.idToken)});
+    } catch (e) {
+      next(e);
+    }
+  }
+);
+
+export default router;
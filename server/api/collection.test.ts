@@ -0,0 +1,59 @@
+import _ from 'lodash';
+import {ApiServer, logInAsNewUser, makePuzzle, startApiServer} from '../testUtils';
+
+let api: ApiServer;
+beforeAll(async () => {
+  api = await startApiServer();
+});
+afterAll(() => api.close());
+
+// uploads a puzzle of its own (so that it isn't a duplicate of another) as the account of auth
+async function uploadPuzzle(auth: Record<string, string>, isPublic = true) {
+  const puzzle = makePuzzle({info: {...makePuzzle().info, title: _.uniqueId('Puzzle ')}});
+  const {body} = await api.request('POST', '/puzzle', {puzzle, isPublic}, auth);
+  return body.pid as string;
+}
+
+describe('/api/collection', () => {
+  it('creates collections of public puzzles, which list them in order', async () => {
+    const auth = await logInAsNewUser();
+    const pids = [await uploadPuzzle(auth), await uploadPuzzle(auth)].reverse();
+    const {status, body} = await api.request('POST', '/collection', {name: ' Week 1 ', pids}, auth);
+    expect(status).toBe(200);
+
+    const {body: got} = await api.request('GET', `/collection/${body.collectionId}`);
+    expect(got.collection).toMatchObject({name: 'Week 1', numPuzzles: 2});
+    expect(_.map(got.collection.puzzles, 'pid')).toEqual(pids);
+    const {body: list} = await api.request('GET', '/collection');
+    expect(_.map(list.collections, 'collectionId')).toContain(body.collectionId);
+  });
+
+  it('rejects private puzzles and malformed collections', async () => {
+    const auth = await logInAsNewUser();
+    const privatePid = await uploadPuzzle(auth, false);
+    expect(await api.request('POST', '/collection', {name: 'Mine', pids: [privatePid]}, auth)).toEqual({
+      status: 400,
+      body: {error: `Puzzles ${privatePid} do not exist or are not public`},
+    });
+    expect(await api.request('POST', '/collection', {name: '', pids: []}, auth)).toMatchObject({status: 400});
+    expect(await api.request('POST', '/collection', {name: 'Anonymous', pids: []})).toMatchObject({
+      status: 401,
+    });
+  });
+
+  it('can only be changed or deleted by the account that created it', async () => {
+    const auth = await logInAsNewUser();
+    const pid = await uploadPuzzle(auth);
+    const {body} = await api.request('POST', '/collection', {name: 'Favorites', pids: [pid]}, auth);
+    const path = `/collection/${body.collectionId}`;
+
+    const otherAuth = await logInAsNewUser();
+    expect(await api.request('PATCH', path, {name: 'Mine now'}, otherAuth)).toMatchObject({status: 403});
+    expect(await api.request('DELETE', path, undefined, otherAuth)).toMatchObject({status: 403});
+
+    expect(await api.request('PATCH', path, {name: 'Renamed'}, auth)).toMatchObject({status: 200});
+    expect((await api.request('GET', path)).body.collection).toMatchObject({name: 'Renamed', numPuzzles: 1});
+    expect(await api.request('DELETE', path, undefined, auth)).toMatchObject({status: 200});
+    expect(await api.request('GET', path)).toMatchObject({status: 404});
+  });
+});
@@ -0,0 +1,87 @@
+import express from 'express';
+import {
+  CreateCollectionRequest,
+  CreateCollectionResponse,
+  DeleteCollectionResponse,
+  GetCollectionResponse,
+  ListCollectionsResponse,
+  UpdateCollectionRequest,
+  UpdateCollectionResponse,
+} from '@shared/types';
+import {
+  createCollection,
+  deleteCollection,
+  getCollection,
+  listCollections,
+  updateCollection,
+} from '../model/collection';
+import {requireUser} from './auth';
+
+const router = express.Router();
+
+router.get<{}, ListCollectionsResponse>('/', async (req, res, next) => {
+  try {
+    res.json({collections: await listCollections()});
+  } catch (e) {
+    next(e);
+  }
+});
+
+router.post<{}, CreateCollectionResponse, CreateCollectionRequest>(
+  '/',
+  requireUser,
+  async (req, res, next) => {
+    try {
+      res.json({collectionId: await createCollection(res.locals.uid, req.body)});
+    } catch (e) {
+      next(e);
+    }
+  }
+);
+
+router.get<{collectionId: string}, GetCollectionResponse>('/:collectionId', async (req, res, next) => {
+  try {
+    const {puzzles, ...collection} = await getCollection(req.params.collectionId);
+    res.json({
+      collection: {
+        ...collection,
+        puzzles: puzzles.map((puzzle) => ({
+          pid: puzzle.pid,
+          content: puzzle.content,
+          stats: {numSolves: puzzle.times_solved},
+          tags: puzzle.tags,
+        })),
+      },
+    });
+  } catch (e) {
+    next(e);
+  }
+});
+
+router.patch<{collectionId: string}, UpdateCollectionResponse, UpdateCollectionRequest>(
+  '/:collectionId',
+  requireUser,
+  async (req, res, next) => {
+    try {
+      await updateCollection(req.params.collectionId, res.locals.uid, req.body);
+      res.json({});
+    } catch (e) {
+      next(e);
+    }
+  }
+);
+
+router.delete<{collectionId: string}, DeleteCollectionResponse>(
+  '/:collectionId',
+  requireUser,
+  async (req, res, next) => {
+    try {
+      await deleteCollection(req.params.collectionId, res.locals.uid);
+      res.json({});
+    } catch (e) {
+      next(e);
+    }
+  }
+);
+
+export default router;
@@ -8,15 +8,13 @@ import { getPuzzleInfo } from '../model/puzzle';
 const router = express.Router();
 
 router.post<{}, CreateGameResponse, CreateGameRequest>('/', async (req, res) => {
-  console.log('got req', req.headers, req.body);
-  const gid = await addInitialGameEvent(req.body.gid, req.body.pid);
+  const gid = await addInitialGameEvent(req.body.gid, req.body.pid, {fencing: !!req.body.fencing});
   res.json({
     gid,
   });
 });
 
 router.get<{gid: string}, GetGameResponse>('/:gid', async (req, res) => {
-  console.log('got req', req.headers, req.body);
   try {
     const {gid} = req.params;
 
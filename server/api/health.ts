@@ -0,0 +1,33 @@
+import express from 'express';
+import {storage} from '../model/storage';
+
+const router = express.Router();
+
+let isShuttingDown = false;
+
+// makes /ready fail from now on, so that load balancers stop sending clients to this process
+export function markShuttingDown() {
+  isShuttingDown = true;
+}
+
+// the process is up
+router.get('/health', (req, res) => {
+  res.json({status: 'ok'});
+});
+
+// the process can take traffic: the database is reachable and the server isn't shutting down
+router.get('/ready', async (req, res) => {
+  if (isShuttingDown) {
+    res.status(503).json({status: 'shutting down'});
+    return;
+  }
+  try {
+    await storage.ping();
+    res.json({status: 'ok'});
+  } catch (e) {
+    console.log('readiness check failed:', e.message);
+    res.status(503).json({status: 'database unreachable'});
+  }
+});
+
+export default router;
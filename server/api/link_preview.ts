@@ -9,7 +9,6 @@ import {getPuzzleInfo} from '../model/puzzle';
 const router = express.Router();
 
 router.get('/', async (req, res) => {
-  console.log('got req', req.headers, req.body);
   let url;
 
   try {
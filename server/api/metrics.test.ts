@@ -0,0 +1,31 @@
+import {ApiServer, startApiServer} from '../testUtils';
+
+let api: ApiServer;
+beforeAll(async () => {
+  api = await startApiServer();
+});
+afterAll(() => api.close());
+
+describe('/api/metrics', () => {
+  it('serves the metrics to the metrics token only', async () => {
+    expect(await api.request('GET', '/metrics')).toEqual({
+      status: 401,
+      body: {error: 'Invalid metrics token'},
+    });
+    expect(
+      await api.request('GET', '/metrics', undefined, {Authorization: 'Bearer wrong-token'})
+    ).toMatchObject({status: 401});
+
+    const {status, body} = await api.request('GET', '/metrics', undefined, {
+      Authorization: 'Bearer metrics-token',
+    });
+    expect(status).toBe(200);
+    expect(body).toContain('dfac_socket_events_total');
+  });
+
+  it('times the API requests by router', async () => {
+    await api.request('GET', '/puzzle_list/tags');
+    const {body} = await api.request('GET', '/metrics', undefined, {Authorization: 'Bearer metrics-token'});
+    expect(body).toMatch(/dfac_http_request_duration_seconds_count\{.*router="puzzle_list".*\} \d+/);
+  });
+});
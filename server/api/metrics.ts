@@ -0,0 +1,34 @@
+import crypto from 'crypto';
+import express from 'express';
+import _ from 'lodash';
+import {registry} from '../metrics';
+
+// the bearer token the metrics are scraped with; without one they aren't served at all
+const metricsToken = process.env.METRICS_TOKEN;
+
+function isMetricsToken(authorization: string | undefined) {
+  const expected = Buffer.from(`Bearer ${metricsToken}`);
+  const actual = Buffer.from(authorization ?? '');
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
+
+const router = express.Router();
+
+router.get('/', async (req, res, next) => {
+  if (!metricsToken) {
+    next(_.assign(new Error('Metrics are disabled; set METRICS_TOKEN to serve them'), {statusCode: 404}));
+    return;
+  }
+  if (!isMetricsToken(req.headers.authorization)) {
+    next(_.assign(new Error('Invalid metrics token'), {statusCode: 401}));
+    return;
+  }
+  try {
+    res.set('Content-Type', registry.contentType);
+    res.end(await registry.metrics());
+  } catch (e) {
+    next(e);
+  }
+});
+
+export default router;
@@ -0,0 +1,58 @@
+import _ from 'lodash';
+import {addInitialGameEvent, getGameEvents, waitForPuzzleUpdateEvents} from '../model/game';
+import {ApiServer, logInAsNewUser, makePuzzle, startApiServer} from '../testUtils';
+
+let api: ApiServer;
+beforeAll(async () => {
+  api = await startApiServer();
+});
+afterAll(() => api.close());
+
+describe('PATCH /api/puzzle/:pid', () => {
+  // a puzzle uploaded by a new account, and a game of it
+  async function uploadPuzzle() {
+    const auth = await logInAsNewUser();
+    const {body} = await api.request('POST', '/puzzle', {puzzle: makePuzzle(), isPublic: false}, auth);
+    const gid = _.uniqueId('game-');
+    await addInitialGameEvent(gid, body.pid);
+    return {pid: body.pid as string, gid, auth};
+  }
+
+  // the types of the events of gid, once the updates of its puzzle are sent
+  async function getEventTypes(gid: string) {
+    await waitForPuzzleUpdateEvents();
+    return _.map(await getGameEvents(gid), 'type');
+  }
+
+  it('sends the fixes of the puzzle to its games', async () => {
+    const {pid, gid, auth} = await uploadPuzzle();
+    const grid = [['X', 'B', 'C'], ...makePuzzle().grid.slice(1)];
+    const clues = {...makePuzzle().clues, across: [null, 'Xbc', null, null, 'Def', 'Ghi']};
+    expect(await api.request('PATCH', `/puzzle/${pid}`, {grid, clues}, auth)).toEqual({
+      status: 200,
+      body: {},
+    });
+
+    expect(await getEventTypes(gid)).toEqual(['create', 'updatePuzzle']);
+    const [, updateEvent] = await getGameEvents(gid);
+    expect(updateEvent.params.solution).toEqual(grid);
+  });
+
+  it("doesn't send updates that leave the grid, info and clues as they were", async () => {
+    const {pid, gid, auth} = await uploadPuzzle();
+    const {grid, info, clues} = JSON.parse(JSON.stringify(makePuzzle()));
+    await api.request('PATCH', `/puzzle/${pid}`, {grid, info, clues}, auth);
+    await api.request('PATCH', `/puzzle/${pid}`, {isPublic: true, tags: ['themeless']}, auth);
+    expect(await getEventTypes(gid)).toEqual(['create']);
+  });
+
+  it('only lets the account that uploaded the puzzle change it', async () => {
+    const {pid, gid} = await uploadPuzzle();
+    const update = {info: {title: 'Taken Over'}};
+    expect(await api.request('PATCH', `/puzzle/${pid}`, update, await logInAsNewUser())).toMatchObject({
+      status: 403,
+    });
+    expect(await api.request('PATCH', `/puzzle/${pid}`, update)).toMatchObject({status: 401});
+    expect(await getEventTypes(gid)).toEqual(['create']);
+  });
+});
@@ -1,16 +1,53 @@
-import {AddPuzzleResponse, AddPuzzleRequest} from '@shared/types';
+import {
+  AddPuzzleResponse,
+  AddPuzzleRequest,
+  DeletePuzzleResponse,
+  UpdatePuzzleRequest,
+  UpdatePuzzleResponse,
+} from '@shared/types';
 import express from 'express';
 
-import {addPuzzle} from '../model/puzzle';
+import {addPuzzleUpdateEvents} from '../model/game';
+import {addPuzzle, deletePuzzle, updatePuzzle} from '../model/puzzle';
+import {identifyUser, requireUser} from './auth';
 
 const router = express.Router();
 
-router.post<{}, AddPuzzleResponse, AddPuzzleRequest>('/', async (req, res) => {
-  console.log('got req', req.headers, req.body);
-  const pid = await addPuzzle(req.body.puzzle, req.body.isPublic, req.body.pid);
-  res.json({
-    pid,
-  });
+// puzzles uploaded while logged in belong to the account
+router.post<{}, AddPuzzleResponse, AddPuzzleRequest>('/', identifyUser, async (req, res, next) => {
+  try {
+    const response = await addPuzzle(req.body.puzzle, req.body.isPublic, req.body.pid, res.locals.uid, {
+      allowDuplicate: !!req.body.allowDuplicate,
+    });
+    res.json(response);
+  } catch (e) {
+    next(e);
+  }
+});
+
+router.patch<{pid: string}, UpdatePuzzleResponse, UpdatePuzzleRequest>(
+  '/:pid',
+  requireUser,
+  async (req, res, next) => {
+    try {
+      const {puzzle, changedForGames} = await updatePuzzle(req.params.pid, res.locals.uid, req.body);
+      if (changedForGames) {
+        addPuzzleUpdateEvents(req.params.pid, puzzle);
+      }
+      res.json({});
+    } catch (e) {
+      next(e);
+    }
+  }
+);
+
+router.delete<{pid: string}, DeletePuzzleResponse>('/:pid', requireUser, async (req, res, next) => {
+  try {
+    await deletePuzzle(req.params.pid, res.locals.uid);
+    res.json({});
+  } catch (e) {
+    next(e);
+  }
 });
 
 export default router;
@@ -0,0 +1,56 @@
+import _ from 'lodash';
+import querystring from 'querystring';
+import {ApiServer, logInAsNewUser, makePuzzle, startApiServer} from '../testUtils';
+
+let api: ApiServer;
+beforeAll(async () => {
+  api = await startApiServer();
+});
+afterAll(() => api.close());
+
+// uploads a public puzzle of its own (so that it isn't a duplicate of another) as the account of auth
+async function uploadPuzzle(auth: Record<string, string>) {
+  const puzzle = makePuzzle({info: {...makePuzzle().info, title: _.uniqueId('Puzzle ')}});
+  const {body} = await api.request('POST', '/puzzle', {puzzle, isPublic: true}, auth);
+  return body.pid as string;
+}
+
+// the pids of the puzzles listed with the tag
+async function listTagged(tag: string) {
+  const query = querystring.stringify({
+    pageSize: 10,
+    'filter[sizeFilter][Mini]': true,
+    'filter[sizeFilter][Standard]': true,
+    'filter[tags]': tag,
+  });
+  const {body} = await api.request('GET', `/puzzle_list?${query}`);
+  return _.map(body.puzzles, 'pid');
+}
+
+describe('tags', () => {
+  it('are set by the uploader, lowercased, and filter the puzzle list', async () => {
+    const auth = await logInAsNewUser();
+    const tagged = await uploadPuzzle(auth);
+    await uploadPuzzle(auth); // untagged
+    const tags = ['Themeless', 'themeless', 'beginner-friendly'];
+    expect(await api.request('PATCH', `/puzzle/${tagged}`, {tags}, auth)).toMatchObject({status: 200});
+
+    expect(await listTagged('themeless')).toEqual([tagged]);
+    expect(await listTagged('beginner-friendly')).toEqual([tagged]);
+    const {body} = await api.request('GET', '/puzzle_list/tags');
+    expect(body.tags).toContainEqual({tag: 'themeless', count: 1});
+  });
+
+  it('are rejected if malformed, or set by another account', async () => {
+    const auth = await logInAsNewUser();
+    const pid = await uploadPuzzle(auth);
+    expect(await api.request('PATCH', `/puzzle/${pid}`, {tags: ['no spaces']}, auth)).toEqual({
+      status: 400,
+      body: {error: 'tags may only contain letters, digits and dashes'},
+    });
+    expect(
+      await api.request('PATCH', `/puzzle/${pid}`, {tags: ['mine']}, await logInAsNewUser())
+    ).toMatchObject({status: 403});
+    expect(await listTagged('mine')).toEqual([]);
+  });
+});
@@ -1,34 +1,75 @@
-import {ListPuzzleResponse} from '@shared/types';
+import {ListPuzzleResponse, ListTagsResponse} from '@shared/types';
 import express from 'express';
 import _ from 'lodash';
-import {listPuzzles} from '../model/puzzle';
-import {ListPuzzleRequestFilters} from '../../src/shared/types';
+import {listPopularTags, listPuzzles} from '../model/puzzle';
+import {ListPuzzleRequestFilters, PuzzleSearchField, PuzzleSort} from '../../src/shared/types';
 
 const router = express.Router();
 
-router.get<{}, ListPuzzleResponse>('/', async (req, res, next) => {
-  const page = Number.parseInt(req.query.page as string, 10);
-  const pageSize = Number.parseInt(req.query.pageSize as string, 10);
-  const rawFilters = req.query.filter as any;
-  const filters: ListPuzzleRequestFilters = {
+const searchFields: PuzzleSearchField[] = ['titleOrAuthor', 'title', 'author', 'clues'];
+const sorts: PuzzleSort[] = ['newest', 'mostSolved', 'averageSolveTime'];
+
+// undefined if the client predates the filter
+const parseOptionalBoolean = (value: unknown) => (value === undefined ? undefined : value === 'true');
+
+// how many tags are offered as chips above the puzzle list
+const POPULAR_TAGS_LIMIT = 30;
+// larger pages are cut down to this many puzzles
+const MAX_PAGE_SIZE = 100;
+
+const badRequest = (message: string) => _.assign(new Error(message), {statusCode: 400});
+
+function parseFilters(rawFilters: any): ListPuzzleRequestFilters {
+  if (!_.isPlainObject(rawFilters) || !_.isPlainObject(rawFilters.sizeFilter)) {
+    throw badRequest('filter and filter.sizeFilter are required');
+  }
+  return {
     sizeFilter: {
       Mini: rawFilters.sizeFilter.Mini === 'true',
       Standard: rawFilters.sizeFilter.Standard === 'true',
+      Sunday: parseOptionalBoolean(rawFilters.sizeFilter.Sunday),
+      Variety: parseOptionalBoolean(rawFilters.sizeFilter.Variety),
     },
-    nameOrTitleFilter: rawFilters.nameOrTitleFilter as string,
+    nameOrTitleFilter: _.isString(rawFilters.nameOrTitleFilter) ? rawFilters.nameOrTitleFilter : '',
+    searchField: searchFields.includes(rawFilters.searchField) ? rawFilters.searchField : undefined,
+    tags: _.filter(_.castArray(rawFilters.tags ?? []), _.isString),
+    sort: sorts.includes(rawFilters.sort) ? rawFilters.sort : undefined,
   };
-  if (!(Number.isFinite(page) && Number.isFinite(pageSize))) {
-    next(_.assign(new Error('page and pageSize should be integers'), {statusCode: 400}));
+}
+
+router.get<{}, ListPuzzleResponse>('/', async (req, res, next) => {
+  try {
+    // page is kept for the clients that predate cursor
+    const page = req.query.page === undefined ? 0 : Number.parseInt(req.query.page as string, 10);
+    const pageSize = Number.parseInt(req.query.pageSize as string, 10);
+    if (!(page >= 0 && pageSize > 0)) {
+      throw badRequest('page and pageSize should be non-negative and positive integers');
+    }
+    const limit = Math.min(pageSize, MAX_PAGE_SIZE);
+    const cursor = _.isString(req.query.cursor) && req.query.cursor ? req.query.cursor : undefined;
+    const filters = parseFilters(req.query.filter);
+    const {puzzles: rawPuzzleList, nextCursor} = await listPuzzles(filters, limit, page * limit, cursor);
+    const puzzles = rawPuzzleList.map((puzzle) => ({
+      pid: puzzle.pid,
+      content: puzzle.content,
+      stats: {numSolves: puzzle.times_solved},
+      tags: puzzle.tags,
+    }));
+    res.json({
+      puzzles,
+      nextCursor,
+    });
+  } catch (e) {
+    next(e);
+  }
+});
+
+router.get<{}, ListTagsResponse>('/tags', async (req, res, next) => {
+  try {
+    res.json({tags: await listPopularTags(POPULAR_TAGS_LIMIT)});
+  } catch (e) {
+    next(e);
   }
-  const rawPuzzleList = await listPuzzles(filters, pageSize, page * pageSize);
-  const puzzles = rawPuzzleList.map((puzzle) => ({
-    pid: puzzle.pid,
-    content: puzzle.content,
-    stats: {numSolves: puzzle.times_solved},
-  }));
-  res.json({
-    puzzles,
-  });
 });
 
 export default router;
@@ -7,18 +7,40 @@ import statsRouter from './stats';
 import oEmbedRouter from './oembed';
 import linkPreviewRouter from './link_preview';
 import countersRouter from './counters';
+import metricsRouter from './metrics';
+import healthRouter from './health';
+import authRouter from './auth';
+import userRouter from './user';
+import collectionRouter from './collection';
+import {timeRequests} from '../metrics';
+import {limitRequests} from '../rateLimits';
 // import statsRouter from './stats';
 
 const router = express.Router();
 
-router.use('/puzzle_list', puzzleListRouter);
-router.use('/puzzle', puzzleRouter);
-router.use('/game', gameRouter);
-router.use('/record_solve', recordSolveRouter);
-router.use('/stats', statsRouter);
-router.use('/oembed', oEmbedRouter);
-router.use('/link_preview', linkPreviewRouter);
-router.use('/counters', countersRouter);
+router.use('/puzzle_list', timeRequests('puzzle_list'), puzzleListRouter);
+router.use('/puzzle', timeRequests('puzzle'), limitRequests('ipWrites'), puzzleRouter);
+router.use('/game', timeRequests('game'), limitRequests('ipWrites'), gameRouter);
+router.use('/record_solve', timeRequests('record_solve'), limitRequests('ipWrites'), recordSolveRouter);
+router.use('/stats', timeRequests('stats'), statsRouter);
+router.use('/oembed', timeRequests('oembed'), oEmbedRouter);
+router.use('/link_preview', timeRequests('link_preview'), linkPreviewRouter);
+router.use('/counters', timeRequests('counters'), limitRequests('ipWrites'), countersRouter);
+router.use('/auth', timeRequests('auth'), authRouter); // limited per route, see auth.ts
+router.use('/user', timeRequests('user'), limitRequests('ipWrites'), userRouter);
+router.use('/collection', timeRequests('collection'), limitRequests('ipWrites'), collectionRouter);
+router.use('/metrics', metricsRouter);
+router.use(healthRouter); // serves /health and /ready
 // router.use('/stats', statsRouter); // disabled for perf reasons -- getPuzzleSolves took 5301ms for 62 gids overall /api/stats took 5355ms for 62 solves
 
+// errors with a statusCode are expected (e.g. "Username foo is already taken"), and their message is shown
+router.use(((err, req, res, next) => {
+  if (!err.statusCode) {
+    next(err);
+    return;
+  }
+  // see ErrorResponse
+  res.status(err.statusCode).json({error: err.message, problems: err.problems});
+}) as express.ErrorRequestHandler);
+
 export default router;
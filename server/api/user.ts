@@ -0,0 +1,67 @@
+import express from 'express';
+import _ from 'lodash';
+import {
+  AddUserGameRequest,
+  AddUserGameResponse,
+  GetUserHistoryResponse,
+  ListUserPuzzlesResponse,
+} from '@shared/types';
+import {listUserPuzzles} from '../model/puzzle';
+import {addUserGame, getUserHistory} from '../model/user_game';
+import {requireLocalId, requireUser} from './auth';
+
+const router = express.Router();
+
+router.get<{uid: string}, GetUserHistoryResponse>('/:uid/history', async (req, res, next) => {
+  try {
+    res.json({history: await getUserHistory(req.params.uid)});
+  } catch (e) {
+    next(e);
+  }
+});
+
+// joins that happen before the first updateCell, e.g. creating a game from /beta/play/:pid
+router.post<{uid: string}, AddUserGameResponse, AddUserGameRequest>(
+  '/:uid/history',
+  requireLocalId,
+  async (req, res, next) => {
+    const {gid, pid, v2} = req.body;
+    if (typeof gid !== 'string' || typeof pid !== 'string') {
+      next(_.assign(new Error('gid and pid should be strings'), {statusCode: 400}));
+      return;
+    }
+    try {
+      await addUserGame(req.params.uid, gid, pid, v2 !== false);
+      res.json({});
+    } catch (e) {
+      next(e);
+    }
+  }
+);
+
+// the puzzles uploaded by an account, including the unlisted ones, so only the account can list them
+router.get<{uid: string}, ListUserPuzzlesResponse>('/:uid/puzzles', requireUser, async (req, res, next) => {
+  if (req.params.uid !== res.locals.uid) {
+    next(
+      _.assign(new Error('Puzzles can only be listed by the account that uploaded them'), {statusCode: 403})
+    );
+    return;
+  }
+  try {
+    const puzzles = await listUserPuzzles(req.params.uid);
+    res.json({
+      puzzles: puzzles.map((puzzle) => ({
+        pid: puzzle.pid,
+        content: puzzle.content,
+        stats: {numSolves: puzzle.times_solved},
+        isPublic: puzzle.is_public,
+        uploadedAt: puzzle.uploaded_at,
+        tags: puzzle.tags,
+      })),
+    });
+  } catch (e) {
+    next(e);
+  }
+});
+
+export default router;
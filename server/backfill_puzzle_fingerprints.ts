@@ -0,0 +1,64 @@
+import _ from 'lodash';
+import type {PuzzleJson} from '@shared/types';
+import {pool} from './model/pool';
+import {getPuzzleFingerprint} from './model/puzzle';
+
+// ============= Backfill Puzzle Fingerprints ===========
+// Usage: yarn backfill-puzzle-fingerprints
+//
+// Fingerprints the puzzles uploaded before migration 0013, so that re-uploads of them are detected too.
+// Only puzzles without a fingerprint are updated, so it is safe to run again. Puzzles whose content can't be
+// fingerprinted (e.g. null) are logged and skipped.
+
+const BATCH_SIZE = 500;
+
+// fingerprints the batch of puzzles after the pid afterPid, returning the pids of the batch
+async function backfillBatch(afterPid: string) {
+  const {
+    rows,
+  }: {
+    rows: {pid: string; content: PuzzleJson}[];
+  } = await pool.query(
+    'SELECT pid, content FROM puzzles WHERE fingerprint IS NULL AND pid > $1 ORDER BY pid LIMIT $2',
+    [afterPid, BATCH_SIZE]
+  );
+  const fingerprinted = _.compact(
+    rows.map((row) => {
+      try {
+        return {pid: row.pid, fingerprint: getPuzzleFingerprint(row.content)};
+      } catch (e) {
+        console.log(`skipping puzzle ${row.pid}: ${e.message}`);
+        return undefined;
+      }
+    })
+  );
+  await pool.query(
+    `
+      UPDATE puzzles
+      SET fingerprint = batch.fingerprint
+      FROM unnest($1::text[], $2::text[]) AS batch (pid, fingerprint)
+      WHERE puzzles.pid = batch.pid
+    `,
+    [_.map(fingerprinted, 'pid'), _.map(fingerprinted, 'fingerprint')]
+  );
+  console.log(`fingerprinted ${fingerprinted.length} puzzles`);
+  return _.map(rows, 'pid');
+}
+
+async function main() {
+  try {
+    let pids = await backfillBatch('');
+    while (pids.length === BATCH_SIZE) {
+      // one batch at a time, as each one starts after the last pid of the previous one
+      // eslint-disable-next-line no-await-in-loop
+      pids = await backfillBatch(_.last(pids)!);
+    }
+  } catch (e) {
+    console.error(e.message);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+}
+
+main();
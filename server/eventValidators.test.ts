@@ -0,0 +1,78 @@
+import {
+  validateGameEvent,
+  validateGameEventSender,
+  validateRoomEvent,
+  validateRoomEventSender,
+} from './eventValidators';
+
+const gameEvent = (type: string, params: object) => ({timestamp: Date.now(), type, params, id: 'event-id'});
+
+describe('validateGameEvent', () => {
+  it('accepts the events of both reducers', () => {
+    expect(() =>
+      validateGameEvent(gameEvent('updateCell', {cell: {r: 0, c: 1}, value: 'A', id: 'player'}))
+    ).not.toThrow();
+    expect(() => validateGameEvent(gameEvent('check', {scope: [{r: 0, c: 0}]}))).not.toThrow();
+    expect(() =>
+      validateGameEvent(gameEvent('sendChatMessage', {message: 'hi', id: 'player', sender: 'Player'}))
+    ).not.toThrow();
+  });
+
+  it('rejects unknown types and malformed params', () => {
+    expect(() => validateGameEvent(gameEvent('deleteGame', {}))).toThrow('Invalid game event');
+    expect(() => validateGameEvent(gameEvent('updateCell', {cell: {r: -1, c: 0}, id: 'player'}))).toThrow(
+      'Invalid updateCell params'
+    );
+    expect(() => validateGameEvent({type: 'startGame', params: {}})).toThrow('"timestamp" is required');
+  });
+});
+
+describe('validateGameEventSender', () => {
+  it('accepts events sent as the socket', () => {
+    expect(() =>
+      validateGameEventSender(gameEvent('updateCell', {cell: {r: 0, c: 0}, id: 'player'}), 'player')
+    ).not.toThrow();
+    expect(() => validateGameEventSender(gameEvent('check', {scope: []}), 'player')).not.toThrow();
+  });
+
+  it('rejects events sent as someone else', () => {
+    expect(() =>
+      validateGameEventSender(gameEvent('updateCell', {cell: {r: 0, c: 0}, id: 'other'}), 'player')
+    ).toThrow('Invalid sender: params.id is other, but this socket is player');
+    expect(() =>
+      validateGameEventSender(gameEvent('chat', {text: 'hi', senderId: 'other'}), 'player')
+    ).toThrow('params.senderId');
+  });
+
+  it('rejects events with a null or missing sender', () => {
+    expect(() => validateGameEventSender(gameEvent('updateCell', {cell: {r: 0, c: 0}}), 'player')).toThrow(
+      'updateCell events must have params.id'
+    );
+    expect(() =>
+      validateGameEventSender(gameEvent('updateCell', {cell: {r: 0, c: 0}, id: null}), 'player')
+    ).toThrow('Invalid sender');
+    expect(() => validateGameEventSender(gameEvent('chat', {text: 'hi', senderId: null}), 'player')).toThrow(
+      'Invalid sender'
+    );
+  });
+
+  it('rejects the events only the server sends', () => {
+    expect(() => validateGameEventSender(gameEvent('updatePuzzle', {solution: []}), 'player')).toThrow(
+      'updatePuzzle events can only be sent by the server'
+    );
+  });
+});
+
+describe('room events', () => {
+  const roomEvent = (uid: string) => ({timestamp: Date.now(), type: 'USER_PING', params: {uid}, uid});
+
+  it('are validated', () => {
+    expect(() => validateRoomEvent(roomEvent('player'))).not.toThrow();
+    expect(() => validateRoomEvent({...roomEvent('player'), type: 'KICK'})).toThrow('Invalid room event');
+  });
+
+  it('must be sent as the socket', () => {
+    expect(() => validateRoomEventSender(roomEvent('player'), 'player')).not.toThrow();
+    expect(() => validateRoomEventSender(roomEvent('other'), 'player')).toThrow('Invalid sender');
+  });
+});
@@ -0,0 +1,248 @@
+import Joi from 'joi';
+import {EventType as FencingEventType} from '@shared/fencingGameEvents/types/GameEventType';
+import {RoomEventType} from '@shared/roomEvents';
+import {gameSnapshotReducers} from './model/game_snapshot';
+
+// ============= Validation of incoming socket events ===========
+// Events are stored forever and replayed by every client, so reject anything the reducers can't handle.
+// A few event types are shared by the classic (src/lib/reducers/game.js) and fencing reducers, with
+// slightly different params; their schemas accept both.
+
+const string = () => Joi.string().allow(''); // https://github.com/sideway/joi/blob/master/API.md#string
+const userId = () => Joi.string();
+const timestamp = () => Joi.number();
+const cell = () =>
+  Joi.object({
+    r: Joi.number().integer().min(0).required(),
+    c: Joi.number().integer().min(0).required(),
+  }).unknown(true); // fencing reveals send the whole cursor
+const scope = () => Joi.array().items(cell().allow(null));
+
+type ClassicEventType =
+  | 'addPing'
+  | 'updateColor'
+  | 'updateClock'
+  | 'reset'
+  | 'chat'
+  | 'updateCell'
+  | 'updateCursor'
+  | 'updateDisplayName'
+  | 'check'
+  | 'reveal'
+  | 'create'
+  | 'startGame'
+  | 'updateTeamId'
+  | 'updatePuzzle';
+
+const gameEventParamsValidators: Record<ClassicEventType | FencingEventType, Joi.ObjectSchema> = {
+  create: Joi.object({
+    pid: Joi.alternatives(Joi.string(), Joi.number()),
+    version: Joi.number(),
+    fencing: Joi.boolean(),
+    game: Joi.object({
+      info: Joi.object(),
+      grid: Joi.array().items(Joi.array()).required(),
+      solution: Joi.array().items(Joi.array()).required(),
+      clues: Joi.object(),
+    })
+      .unknown(true)
+      .required(),
+  }),
+  updateCursor: Joi.object({
+    cell: cell().required(),
+    id: userId().required(),
+    timestamp: timestamp(),
+  }),
+  addPing: Joi.object({
+    cell: cell().required(),
+    id: userId().required(),
+    timestamp: timestamp(),
+  }),
+  updateDisplayName: Joi.object({
+    id: userId().required(),
+    displayName: string().required(),
+  }),
+  updateColor: Joi.object({
+    id: userId().required(),
+    color: Joi.string().required(),
+  }),
+  updateCell: Joi.object({
+    cell: cell().required(),
+    value: string().allow(null),
+    color: Joi.string().allow(null),
+    pencil: Joi.boolean().allow(null),
+    id: userId(),
+    autocheck: Joi.boolean().allow(null),
+  }),
+  check: Joi.object({
+    scope: scope().required(),
+    id: userId(),
+  }),
+  reveal: Joi.object({
+    scope: scope().required(),
+    id: userId(),
+  }),
+  reset: Joi.object({
+    scope: scope().required(),
+    force: Joi.boolean().allow(null),
+  }),
+  updateClock: Joi.object({
+    action: Joi.string().valid('start', 'pause', 'reset').required(),
+    timestamp: timestamp(),
+  }),
+  chat: Joi.object({
+    text: string().required(),
+    senderId: userId(),
+    sender: string(),
+    id: userId(), // sent by fencing games
+  }),
+  sendChatMessage: Joi.object({
+    message: string().required(),
+    id: userId(),
+    sender: string(),
+  }),
+  startGame: Joi.object({}),
+  revealAllClues: Joi.object({}),
+  updateTeamId: Joi.object({
+    id: userId().required(),
+    teamId: Joi.number().integer().required(),
+  }),
+  updatePuzzle: Joi.object({
+    info: Joi.object(),
+    solution: Joi.array().items(Joi.array()).required(),
+    clues: Joi.object(),
+  }),
+  updateTeamName: Joi.object({
+    teamId: Joi.alternatives(Joi.string(), Joi.number()).required(),
+    teamName: string().required(),
+  }),
+};
+
+const gameEventValidator = Joi.object({
+  timestamp: timestamp().required(),
+  type: Joi.string()
+    .valid(...Object.keys(gameEventParamsValidators))
+    .required(),
+  params: Joi.object().required(),
+  id: Joi.string(),
+  user: string().allow(null),
+});
+
+const roomEventParamsValidators: Record<RoomEventType, Joi.ObjectSchema> = {
+  USER_PING: Joi.object({
+    uid: userId().required(),
+  }),
+  SET_GAME: Joi.object({
+    gid: Joi.string().required(),
+  }),
+};
+
+const roomEventValidator = Joi.object({
+  timestamp: timestamp().required(),
+  type: Joi.string()
+    .valid(...Object.keys(roomEventParamsValidators))
+    .required(),
+  params: Joi.object().required(),
+  uid: userId().required(),
+});
+
+function validate(validator: Joi.ObjectSchema, value: any, description: string) {
+  const {error} = validator.validate(value);
+  if (error) {
+    throw new Error(`Invalid ${description}: ${error.message}`);
+  }
+}
+
+export function validateGameEvent(event: any) {
+  validate(gameEventValidator, event, 'game event');
+  const type = event.type as keyof typeof gameEventParamsValidators;
+  validate(gameEventParamsValidators[type], event.params, `${type} params`);
+}
+
+// cursors and pings can be sent over the game_presence channel, which relays them without storing them
+const presenceEventTypes = ['updateCursor', 'addPing'];
+
+export function validatePresenceEvent(event: any) {
+  validateGameEvent(event);
+  if (!presenceEventTypes.includes(event.type)) {
+    throw new Error(`Invalid presence event: ${event.type} events must be sent as game events`);
+  }
+}
+
+export function validateRoomEvent(event: any) {
+  validate(roomEventValidator, event, 'room event');
+  const type = event.type as RoomEventType;
+  validate(roomEventParamsValidators[type], event.params, `${type} params`);
+}
+
+// ============= Validation of the sender ===========
+// Users can only send events as themselves: every user id in an event must be the id its socket authenticated
+// as (see authenticateSocket), so that e.g. chat messages and fencing scores are attributed to the right user.
+
+// only the events stored by the server itself (see addServerGameEvent) go without a sender
+function validateSender(value: unknown, id: string, field: string) {
+  if (value !== undefined && value !== id) {
+    throw new Error(`Invalid sender: ${field} is ${value}, but this socket is ${id}`);
+  }
+}
+
+// the params holding the id of the user who sent the event, for the event types that always have one
+// (classic checks and reveals are sent without an id)
+const senderParams: Partial<Record<string, string[]>> = {
+  updateCursor: ['id'],
+  addPing: ['id'],
+  updateDisplayName: ['id'],
+  updateColor: ['id'],
+  updateCell: ['id'],
+  updateTeamId: ['id'],
+  chat: ['senderId'],
+  sendChatMessage: ['id'],
+};
+
+// sent by the server when the puzzle of the game is fixed, see addPuzzleUpdateEvents
+const serverEventTypes = ['updatePuzzle'];
+
+export function validateGameEventSender(event: any, id: string) {
+  if (serverEventTypes.includes(event.type)) {
+    throw new Error(`Invalid sender: ${event.type} events can only be sent by the server`);
+  }
+  (senderParams[event.type] ?? []).forEach((param) => {
+    if (event.params[param] === undefined) {
+      throw new Error(`Invalid sender: ${event.type} events must have params.${param}`);
+    }
+  });
+  validateSender(event.params.id, id, 'params.id');
+  validateSender(event.params.senderId, id, 'params.senderId');
+}
+
+export function validateRoomEventSender(event: any, id: string) {
+  validateSender(event.uid, id, 'uid');
+  validateSender(event.params.uid, id, 'params.uid');
+}
+
+// ============= Validation of the sync requests ===========
+
+const syncAllGameEventsRequestValidator = Joi.object({
+  gid: Joi.string().required(),
+  reducer: Joi.string().valid(...gameSnapshotReducers),
+})
+  .required()
+  .label('request');
+
+// either afterSeq or since, see SyncGameEventsSinceRequest
+const syncGameEventsSinceRequestValidator = Joi.object({
+  gid: Joi.string().required(),
+  afterSeq: Joi.number().integer().min(0),
+  since: Joi.number(),
+})
+  .or('afterSeq', 'since')
+  .required()
+  .label('request');
+
+export function validateSyncAllGameEventsRequest(request: any) {
+  validate(syncAllGameEventsRequestValidator, request, 'sync_all_game_events request');
+}
+
+export function validateSyncGameEventsSinceRequest(request: any) {
+  validate(syncGameEventsSinceRequestValidator, request, 'sync_game_events_since request');
+}
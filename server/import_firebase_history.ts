@@ -0,0 +1,67 @@
+import fs from 'fs';
+import _ from 'lodash';
+import {pool} from './model/pool';
+import {storage} from './model/storage';
+
+// ============= Import Firebase History ===========
+// Usage: yarn import-firebase-history <user.json>
+//
+// Copies the history of every user from an export of the firebase `user` tree (as downloaded from the
+// firebase console) into user_games. Games already in user_games are skipped, so it is safe to run again.
+
+interface FirebaseHistoryEntry {
+  pid?: number | string;
+  solved?: boolean;
+  time?: number;
+  v2?: boolean;
+}
+
+async function importUser(uid: string, history: {[gid: string]: FirebaseHistoryEntry}) {
+  const entries = _.toPairs(history).filter(
+    // 'solo' holds the solo games of the old website, which have no gid
+    ([gid, entry]) => gid !== 'solo' && entry && entry.pid !== undefined && entry.pid !== -1
+  );
+  await Promise.all(
+    entries.map(([gid, entry]) =>
+      storage.addUserGame({
+        uid,
+        gid,
+        pid: String(entry.pid),
+        v2: !!entry.v2,
+        solved: !!entry.solved,
+        joinedAt: entry.time,
+      })
+    )
+  );
+  return entries.length;
+}
+
+async function main() {
+  const file = process.argv[2];
+  if (!file) {
+    console.log('Usage: yarn import-firebase-history <user.json>');
+    process.exitCode = 1;
+    return;
+  }
+  const users: {[uid: string]: {history?: {[gid: string]: FirebaseHistoryEntry}}} = JSON.parse(
+    fs.readFileSync(file, 'utf8')
+  );
+  let count = 0;
+  try {
+    for (const [uid, user] of _.toPairs(users)) {
+      if (user.history) {
+        // one user at a time, to not exhaust the pool
+        // eslint-disable-next-line no-await-in-loop
+        count += await importUser(uid, user.history);
+      }
+    }
+    console.log(`imported ${count} games of ${_.size(users)} users`);
+  } catch (e) {
+    console.error(e.message);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+}
+
+main();
@@ -0,0 +1,15 @@
+// The server tests, run with `yarn testbackend` (`yarn test` only runs the tests under src).
+// They run against MemoryStorage
+module.exports = {
+  rootDir: '..',
+  roots: ['<rootDir>/server'],
+  testEnvironment: 'node',
+  transform: {
+    '^.+\\.(js|ts)$': '<rootDir>/server/jest.transform.js',
+  },
+  moduleNameMapper: {
+    '^@shared/(.*)$': '<rootDir>/src/shared/$1',
+    '^@lib/(.*)$': '<rootDir>/src/lib/$1',
+  },
+  setupFiles: ['<rootDir>/server/jest.setup.js'],
+};
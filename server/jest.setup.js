@@ -0,0 +1,4 @@
+// read by server/model/storage when it is first imported
+process.env.STORAGE = 'memory';
+// read by server/api/metrics when it is first imported
+process.env.METRICS_TOKEN = 'metrics-token';
@@ -0,0 +1,10 @@
+// the babel config of react-scripts (config/jest/babelTransform.js), without resolving an absolute path
+// to @babel/runtime, which the server doesn't need
+// eslint-disable-next-line import/no-extraneous-dependencies
+const babelJest = require('babel-jest');
+
+module.exports = babelJest.createTransformer({
+  presets: [[require.resolve('babel-preset-react-app'), {absoluteRuntime: false}]],
+  babelrc: false,
+  configFile: false,
+});
@@ -0,0 +1,100 @@
+import express from 'express';
+import client from 'prom-client';
+import socketIo from 'socket.io';
+
+// ============= Metrics ===========
+// Exposed in the prometheus text format at /api/metrics, to requests with the bearer token METRICS_TOKEN
+
+export const registry = new client.Registry();
+client.collectDefaultMetrics({register: registry, prefix: 'dfac_'});
+
+export const httpRequestDuration = new client.Histogram({
+  name: 'dfac_http_request_duration_seconds',
+  help: 'Latency of API requests, by router',
+  labelNames: ['router', 'method', 'status'],
+  registers: [registry],
+});
+
+export const dbQueryDuration = new client.Histogram({
+  name: 'dfac_db_query_duration_seconds',
+  help: 'Duration of storage calls, by storage function',
+  labelNames: ['function'],
+  buckets: [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+  registers: [registry],
+});
+
+export const socketEventsTotal = new client.Counter({
+  name: 'dfac_socket_events_total',
+  help:
+    'Events accepted over the socket, by channel (game_event, game_presence or room_event) and event type',
+  labelNames: ['channel', 'event_type'],
+  registers: [registry],
+});
+
+export const rejectedSocketEventsTotal = new client.Counter({
+  name: 'dfac_rejected_socket_events_total',
+  help: 'Events rejected over the socket (malformed, or against the rules of a fencing game), by channel',
+  labelNames: ['channel'],
+  registers: [registry],
+});
+
+export const rateLimitedTotal = new client.Counter({
+  name: 'dfac_rate_limited_total',
+  help: 'Socket events and API requests refused for exceeding a rate limit, by limit',
+  labelNames: ['limit'],
+  registers: [registry],
+});
+
+export const gameSnapshotFoldDuration = new client.Histogram({
+  name: 'dfac_game_snapshot_fold_duration_seconds',
+  help: 'Time spent folding the events of a game into a new snapshot, by reducer',
+  labelNames: ['reducer'],
+  registers: [registry],
+});
+
+export const puzzleUpdateEventsDuration = new client.Histogram({
+  name: 'dfac_puzzle_update_events_duration_seconds',
+  help: 'Time spent adding the updatePuzzle event of a fixed puzzle to its unsolved games',
+  buckets: [0.01, 0.05, 0.1, 0.5, 1, 5, 10, 30, 60, 300],
+  registers: [registry],
+});
+
+// records the latency of the requests handled by router
+export const timeRequests = (router: string): express.RequestHandler => (req, res, next) => {
+  const end = httpRequestDuration.startTimer({router, method: req.method});
+  res.on('finish', () => end({status: res.statusCode}));
+  next();
+};
+
+// the sockets and rooms are read off io whenever the metrics are scraped
+export function registerSocketMetrics(io: socketIo.Server) {
+  const countRooms = (prefix: string) =>
+    Object.keys(io.sockets.adapter.rooms).filter((room) => room.startsWith(prefix)).length;
+  // eslint-disable-next-line no-new
+  new client.Gauge({
+    name: 'dfac_connected_sockets',
+    help: 'Sockets connected to this process',
+    registers: [registry],
+    collect() {
+      this.set(Object.keys(io.sockets.connected).length);
+    },
+  });
+  // eslint-disable-next-line no-new
+  new client.Gauge({
+    name: 'dfac_joined_games',
+    help: 'Games joined by at least one socket of this process',
+    registers: [registry],
+    collect() {
+      this.set(countRooms('game-'));
+    },
+  });
+  // eslint-disable-next-line no-new
+  new client.Gauge({
+    name: 'dfac_joined_rooms',
+    help: 'Rooms joined by at least one socket of this process',
+    registers: [registry],
+    collect() {
+      this.set(countRooms('room-'));
+    },
+  });
+}
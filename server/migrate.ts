@@ -0,0 +1,181 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import _ from 'lodash';
+import {PoolClient} from 'pg';
+import {pool} from './model/pool';
+
+// ============= Database Migrations ===========
+// Usage: yarn migrate <up|status>
+//
+// Migrations are the .sql files in server/migrations, applied in order of their numeric prefix
+// (e.g. 0002_add_event_seqs.sql). Each one runs in a transaction, and is recorded in schema_migrations
+// along with a checksum of its contents, so that editing a migration after it was applied is caught.
+// Never edit an applied migration; add a new one instead.
+
+const MIGRATIONS_DIR = path.join(__dirname, 'migrations');
+// any constant works, as long as every server uses the same one
+const MIGRATIONS_LOCK_ID = 4242;
+
+interface Migration {
+  version: string;
+  name: string;
+  checksum: string;
+  sql: string;
+}
+
+interface AppliedMigration {
+  version: string;
+  name: string;
+  checksum: string;
+  applied_at: Date;
+}
+
+function loadMigrations(): Migration[] {
+  const files = fs
+    .readdirSync(MIGRATIONS_DIR)
+    .filter((file) => file.endsWith('.sql'))
+    .sort();
+  const migrations = files.map((file) => {
+    const match = file.match(/^(\d+)_(.+)\.sql$/);
+    if (!match) {
+      throw new Error(`Invalid migration file name ${file}, expected <version>_<name>.sql`);
+    }
+    const sql = fs.readFileSync(path.join(MIGRATIONS_DIR, file), 'utf8');
+    return {
+      version: match[1],
+      name: match[2],
+      checksum: crypto.createHash('sha256').update(sql).digest('hex'),
+      sql,
+    };
+  });
+  const duplicate = _.find(_.groupBy(migrations, 'version'), (group) => group.length > 1);
+  if (duplicate) {
+    throw new Error(`Duplicate migration version ${duplicate[0].version}`);
+  }
+  return migrations;
+}
+
+async function getAppliedMigrations(client: PoolClient): Promise<AppliedMigration[]> {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations
+    (
+      version text PRIMARY KEY,
+      name text NOT NULL,
+      checksum text NOT NULL,
+      applied_at timestamp without time zone NOT NULL DEFAULT NOW()
+    )
+  `);
+  const {rows} = await client.query(
+    'SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version ASC'
+  );
+  return rows;
+}
+
+// Compares the migrations on disk with the applied ones
+async function getMigrationStatus(client: PoolClient) {
+  const migrations = loadMigrations();
+  const applied = _.keyBy(await getAppliedMigrations(client), 'version');
+  return {
+    migrations,
+    applied,
+    pending: migrations.filter((migration) => !applied[migration.version]),
+    changed: migrations.filter(
+      (migration) => applied[migration.version] && applied[migration.version].checksum !== migration.checksum
+    ),
+    // applied, but no longer on disk
+    missing: _.values(applied).filter(
+      (appliedMigration) => !_.some(migrations, {version: appliedMigration.version})
+    ),
+  };
+}
+
+async function printStatus(client: PoolClient) {
+  const {migrations, applied, changed, missing} = await getMigrationStatus(client);
+  migrations.forEach((migration) => {
+    const appliedMigration = applied[migration.version];
+    if (!appliedMigration) {
+      console.log(`pending  ${migration.version}_${migration.name}`);
+    } else if (_.includes(changed, migration)) {
+      console.log(`CHANGED  ${migration.version}_${migration.name} (edited after it was applied)`);
+    } else {
+      console.log(
+        `applied  ${migration.version}_${migration.name} (${appliedMigration.applied_at.toISOString()})`
+      );
+    }
+  });
+  missing.forEach((appliedMigration) => {
+    console.log(
+      `MISSING  ${appliedMigration.version}_${appliedMigration.name} (applied, but not in ${MIGRATIONS_DIR})`
+    );
+  });
+}
+
+async function applyMigration(client: PoolClient, migration: Migration) {
+  const startTime = Date.now();
+  try {
+    await client.query('BEGIN');
+    await client.query(migration.sql);
+    await client.query('INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)', [
+      migration.version,
+      migration.name,
+      migration.checksum,
+    ]);
+    await client.query('COMMIT');
+  } catch (e) {
+    await client.query('ROLLBACK');
+    throw new Error(`Migration ${migration.version}_${migration.name} failed: ${e.message}`);
+  }
+  const ms = Date.now() - startTime;
+  console.log(`applied ${migration.version}_${migration.name} in ${ms}ms`);
+}
+
+async function migrateUp(client: PoolClient) {
+  // keeps two servers from migrating the same database at once
+  await client.query('SELECT pg_advisory_lock($1)', [MIGRATIONS_LOCK_ID]);
+  try {
+    const {pending, changed} = await getMigrationStatus(client);
+    if (changed.length > 0) {
+      throw new Error(
+        `Applied migrations were edited: ${changed.map((migration) => migration.version).join(', ')}`
+      );
+    }
+    if (pending.length === 0) {
+      console.log('No pending migrations');
+      return;
+    }
+    for (const migration of pending) {
+      // migrations must be applied one after the other
+      // eslint-disable-next-line no-await-in-loop
+      await applyMigration(client, migration);
+    }
+  } finally {
+    await client.query('SELECT pg_advisory_unlock($1)', [MIGRATIONS_LOCK_ID]);
+  }
+}
+
+const commands: Record<string, (client: PoolClient) => Promise<void>> = {
+  up: migrateUp,
+  status: printStatus,
+};
+
+async function main() {
+  const command = commands[process.argv[2]];
+  if (!command) {
+    console.log(`Usage: yarn migrate <${_.keys(commands).join('|')}>`);
+    process.exitCode = 1;
+    return;
+  }
+  const client = await pool.connect();
+  try {
+    await command(client);
+  } catch (e) {
+    console.error(e.message);
+    process.exitCode = 1;
+  } finally {
+    client.release();
+    await pool.end();
+  }
+}
+
+main();
@@ -0,0 +1,78 @@
+-- the schema from server/sql/create_*.sql as of 1/2021, before migrations were tracked.
+-- every statement is idempotent, so that environments set up with the old scripts can apply it too
+
+-- ======== game_events ========= --
+
+CREATE TABLE IF NOT EXISTS public.game_events
+(
+    gid text COLLATE pg_catalog."default",
+    uid text COLLATE pg_catalog."default",
+    ts timestamp without time zone,
+    event_type text COLLATE pg_catalog."default",
+    event_payload json
+);
+
+CREATE INDEX IF NOT EXISTS game_events_gid_ts_idx
+    ON public.game_events USING btree
+    (gid COLLATE pg_catalog."default" ASC NULLS LAST, ts ASC NULLS LAST);
+
+-- ======== room_events ========= --
+
+CREATE TABLE IF NOT EXISTS public.room_events
+(
+    rid text COLLATE pg_catalog."default",
+    uid text COLLATE pg_catalog."default",
+    ts timestamp without time zone,
+    event_type text COLLATE pg_catalog."default",
+    event_payload json
+);
+
+CREATE INDEX IF NOT EXISTS rame_events_rid_ts_idx
+    ON public.room_events USING btree
+    (rid COLLATE pg_catalog."default" ASC NULLS LAST, ts ASC NULLS LAST);
+
+-- ======== puzzles ========= --
+
+-- extension needed for trigram index support
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE TABLE IF NOT EXISTS public.puzzles
+(
+  uid text,
+
+  -- properties managed by dfac
+  pid text PRIMARY KEY,
+  pid_numeric numeric, -- the pid as a number, if exists. NULL otherwise
+  is_public boolean,
+  uploaded_at timestamp without time zone,
+  times_solved numeric DEFAULT 0 CHECK (times_solved >= 0),
+
+  -- static properties of the puzzle
+  content jsonb
+);
+
+-- trigram index for ILIKE %foo% searches https://about.gitlab.com/blog/2016/03/18/fast-search-using-postgresql-trigram-indexes/
+CREATE INDEX IF NOT EXISTS puzzle_name_and_title_trigrams
+    ON public.puzzles USING GIST ( ((content -> 'info' ->> 'title') || ' ' || (content->'info'->>'author')) gist_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS puzzle_pid_numeric_desc
+    ON public.puzzles USING btree
+    (pid_numeric DESC NULLS LAST);
+
+-- ======== puzzle_solves ========= --
+
+CREATE TABLE IF NOT EXISTS public.puzzle_solves
+(
+    -- only allow a puzzle solve to be recorded if the puzzle exists, and when a puzzle is deleted, also delete the solves
+    pid text NOT NULL REFERENCES puzzles ON DELETE CASCADE,
+    gid text NOT NULL,
+    solved_time timestamp without time zone, -- the time the solve was recorded
+    time_taken_to_solve integer CHECK (time_taken_to_solve > 0), -- the duration (seconds) of how long it took to solve
+
+    constraint only_one_solve_per_puzzle_and_game UNIQUE(pid,gid)
+);
+
+-- ======== id counters ========= --
+
+CREATE SEQUENCE IF NOT EXISTS gid_counter START 100000000;
+CREATE SEQUENCE IF NOT EXISTS pid_counter START 100000000;
@@ -0,0 +1,33 @@
+-- adds per-gid / per-rid sequence numbers to game_events and room_events, see addGameEvent in model/game.ts
+
+ALTER TABLE public.game_events
+ADD COLUMN IF NOT EXISTS seq bigint; -- strictly increasing per gid, see game_event_seqs
+ALTER TABLE public.room_events
+ADD COLUMN IF NOT EXISTS seq bigint; -- strictly increasing per rid, see room_event_seqs
+
+-- number the existing events in timestamp order
+UPDATE public.game_events ge
+SET seq = numbered.seq
+FROM (SELECT ctid, row_number() OVER (PARTITION BY gid ORDER BY ts ASC) AS seq FROM public.game_events) numbered
+WHERE ge.ctid = numbered.ctid AND ge.seq IS NULL;
+UPDATE public.room_events re
+SET seq = numbered.seq
+FROM (SELECT ctid, row_number() OVER (PARTITION BY rid ORDER BY ts ASC) AS seq FROM public.room_events) numbered
+WHERE re.ctid = numbered.ctid AND re.seq IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS game_events_gid_seq_idx
+    ON public.game_events USING btree
+    (gid COLLATE pg_catalog."default" ASC NULLS LAST, seq ASC NULLS LAST);
+CREATE UNIQUE INDEX IF NOT EXISTS room_events_rid_seq_idx
+    ON public.room_events USING btree
+    (rid COLLATE pg_catalog."default" ASC NULLS LAST, seq ASC NULLS LAST);
+
+-- the last seq handed out for each gid / rid
+CREATE TABLE IF NOT EXISTS public.game_event_seqs (gid text PRIMARY KEY, seq bigint NOT NULL);
+CREATE TABLE IF NOT EXISTS public.room_event_seqs (rid text PRIMARY KEY, seq bigint NOT NULL);
+INSERT INTO public.game_event_seqs (gid, seq)
+SELECT gid, MAX(seq) FROM public.game_events WHERE gid IS NOT NULL GROUP BY gid
+ON CONFLICT (gid) DO NOTHING;
+INSERT INTO public.room_event_seqs (rid, seq)
+SELECT rid, MAX(seq) FROM public.room_events WHERE rid IS NOT NULL GROUP BY rid
+ON CONFLICT (rid) DO NOTHING;
@@ -0,0 +1,9 @@
+-- lets addGameEvent in model/game.ts dedupe retried events on (gid, event_id).
+-- existing rows are left with a NULL event_id, which never conflicts; retries only happen within seconds.
+
+ALTER TABLE public.game_events
+ADD COLUMN IF NOT EXISTS event_id text; -- the client-assigned event.id
+
+CREATE UNIQUE INDEX IF NOT EXISTS game_events_gid_event_id_idx
+    ON public.game_events USING btree
+    (gid COLLATE pg_catalog."default" ASC NULLS LAST, event_id COLLATE pg_catalog."default" ASC NULLS LAST);
@@ -0,0 +1,18 @@
+-- snapshots of the reduced game state, see model/game_snapshot.ts.
+-- they are only a cache, rebuilt on demand by sync_all_game_events, so an older version of the table is dropped
+
+DROP TABLE IF EXISTS public.game_snapshots;
+
+CREATE TABLE public.game_snapshots
+(
+  gid text NOT NULL,
+  -- the reducer that produced the snapshot: 'classic' (src/lib/reducers/game.js) or 'fencing' (src/shared/fencingGameEvents)
+  reducer text NOT NULL,
+  -- the seq and timestamp (ms since epoch) of the last game event folded into the snapshot
+  last_event_seq bigint NOT NULL,
+  last_event_timestamp bigint NOT NULL,
+  created_at timestamp without time zone,
+  snapshot json,
+
+  constraint only_one_snapshot_per_game_and_reducer UNIQUE(gid, reducer)
+);
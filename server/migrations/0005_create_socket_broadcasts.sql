@@ -0,0 +1,9 @@
+-- broadcasts too large for a NOTIFY payload (8000 bytes), see server/PostgresAdapter.ts
+-- rows are only needed until every server has fetched them, and are deleted after a minute
+
+CREATE TABLE IF NOT EXISTS public.socket_broadcasts
+(
+  id bigserial PRIMARY KEY,
+  created_at timestamp without time zone NOT NULL DEFAULT NOW(),
+  payload json NOT NULL
+);
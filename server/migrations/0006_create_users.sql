@@ -0,0 +1,38 @@
+-- accounts with a username and password, see server/model/user.ts
+
+CREATE TABLE public.users
+(
+  uid text PRIMARY KEY,
+  username text NOT NULL,
+  -- scrypt hash of the password, along with its salt and parameters
+  password_hash text NOT NULL,
+  created_at timestamp without time zone NOT NULL DEFAULT NOW()
+);
+
+-- usernames are unique regardless of case
+CREATE UNIQUE INDEX users_lower_username_idx
+  ON public.users USING btree (lower(username));
+
+-- only the sha256 of each session token is stored, so that a leaked table can't be used to log in
+CREATE TABLE public.user_sessions
+(
+  token_hash text PRIMARY KEY,
+  uid text NOT NULL REFERENCES public.users (uid) ON DELETE CASCADE,
+  created_at timestamp without time zone NOT NULL DEFAULT NOW(),
+  expires_at timestamp without time zone NOT NULL
+);
+
+CREATE INDEX user_sessions_uid_idx
+  ON public.user_sessions USING btree (uid);
+
+-- the ids generated by browsers before accounts existed (see src/localAuth.js), which keyed the history of
+-- their games. A local id belongs to at most one account; the first one linked is the id the account plays as
+CREATE TABLE public.user_local_ids
+(
+  local_id text PRIMARY KEY,
+  uid text NOT NULL REFERENCES public.users (uid) ON DELETE CASCADE,
+  linked_at timestamp without time zone NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX user_local_ids_uid_linked_at_idx
+  ON public.user_local_ids USING btree (uid, linked_at);
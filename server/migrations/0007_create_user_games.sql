@@ -0,0 +1,20 @@
+-- the games each user played, see server/model/user_game.ts.
+-- uid is the id the user plays as (the params.id of their game events), not the uid of an account
+
+CREATE TABLE public.user_games
+(
+  uid text NOT NULL,
+  gid text NOT NULL,
+  pid text NOT NULL,
+  -- false for the games of the firebase backend (/game/:gid), which only appear in imported history
+  v2 boolean NOT NULL DEFAULT true,
+  solved boolean NOT NULL DEFAULT false,
+  joined_at timestamp without time zone NOT NULL DEFAULT NOW(),
+  solved_at timestamp without time zone,
+
+  PRIMARY KEY (uid, gid)
+);
+
+-- for marking every player of a game as solved
+CREATE INDEX user_games_gid_idx
+  ON public.user_games USING btree (gid);
@@ -0,0 +1,4 @@
+-- puzzles.uid is the account that uploaded the puzzle (NULL for anonymous uploads), see the My puzzles page
+
+CREATE INDEX IF NOT EXISTS puzzles_uid_uploaded_at_idx
+  ON public.puzzles USING btree (uid, uploaded_at DESC);
@@ -0,0 +1,5 @@
+-- finds the games created from a puzzle, to send them the fixes made to it (see updatePuzzle in server/model/puzzle.ts)
+
+CREATE INDEX IF NOT EXISTS game_events_create_pid_idx
+  ON public.game_events USING btree ((event_payload->'params'->>'pid'))
+  WHERE event_type = 'create';
@@ -0,0 +1,29 @@
+-- tags of the puzzle library (e.g. "themeless" or a publication name), set by the uploader or an admin
+
+ALTER TABLE public.puzzles ADD COLUMN tags text[] NOT NULL DEFAULT '{}';
+
+-- for tags @> ARRAY[...] filters
+CREATE INDEX puzzles_tags_idx
+  ON public.puzzles USING gin (tags);
+
+-- named, ordered lists of puzzles (e.g. a week of minis), see server/model/collection.ts
+CREATE TABLE public.collections
+(
+  collection_id text PRIMARY KEY,
+  -- the account that created the collection, which can then update or delete it
+  uid text NOT NULL REFERENCES public.users (uid) ON DELETE CASCADE,
+  name text NOT NULL,
+  created_at timestamp without time zone NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX collections_created_at_idx
+  ON public.collections USING btree (created_at DESC);
+
+CREATE TABLE public.collection_puzzles
+(
+  collection_id text NOT NULL REFERENCES public.collections (collection_id) ON DELETE CASCADE,
+  pid text NOT NULL REFERENCES public.puzzles (pid) ON DELETE CASCADE,
+  position integer NOT NULL,
+
+  PRIMARY KEY (collection_id, pid)
+);
@@ -0,0 +1,12 @@
+-- full-text search over the clues of puzzles, see listPuzzles in server/model/storage/PostgresStorage.ts.
+-- to_tsvector of a jsonb value indexes its strings, i.e. the text of every clue
+
+CREATE INDEX IF NOT EXISTS puzzles_clues_fts_idx
+  ON public.puzzles USING gin (to_tsvector('english', content -> 'clues'));
+
+-- for searching the title or the author alone; puzzle_name_and_title_trigrams covers both at once
+CREATE INDEX IF NOT EXISTS puzzle_title_trigrams
+  ON public.puzzles USING gist ((content -> 'info' ->> 'title') gist_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS puzzle_author_trigrams
+  ON public.puzzles USING gist ((content -> 'info' ->> 'author') gist_trgm_ops);
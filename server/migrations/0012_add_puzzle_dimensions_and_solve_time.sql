@@ -0,0 +1,33 @@
+-- the size of the grid, for the size buckets of listPuzzles (see ListPuzzleRequestFilters).
+-- info.type only tells minis from the rest, based on the number of rows.
+-- NULL if the grid isn't an array (jsonb_array_length would fail the insert)
+
+ALTER TABLE public.puzzles
+  ADD COLUMN num_rows integer GENERATED ALWAYS AS (
+    CASE WHEN jsonb_typeof(content -> 'grid') = 'array' THEN jsonb_array_length(content -> 'grid') END
+  ) STORED;
+
+ALTER TABLE public.puzzles
+  ADD COLUMN num_cols integer GENERATED ALWAYS AS (
+    CASE WHEN jsonb_typeof(content -> 'grid' -> 0) = 'array' THEN jsonb_array_length(content -> 'grid' -> 0) END
+  ) STORED;
+
+-- the mean time_taken_to_solve of the puzzle_solves of the puzzle, in seconds; NULL until it is solved.
+-- kept up to date by addPuzzleSolve, like times_solved
+ALTER TABLE public.puzzles ADD COLUMN average_solve_time double precision;
+
+UPDATE public.puzzles p
+SET average_solve_time = s.average_solve_time
+FROM (
+  SELECT pid, AVG(time_taken_to_solve) AS average_solve_time
+  FROM public.puzzle_solves
+  GROUP BY pid
+) s
+WHERE p.pid = s.pid;
+
+-- for the sort orders of listPuzzles; newest uses puzzle_pid_numeric_desc
+CREATE INDEX puzzles_times_solved_idx
+  ON public.puzzles USING btree (times_solved DESC);
+
+CREATE INDEX puzzles_average_solve_time_idx
+  ON public.puzzles USING btree (average_solve_time ASC NULLS LAST);
@@ -0,0 +1,9 @@
+-- a hash of the grid, clues, title and author of the puzzle, to tell re-uploads of a public puzzle,
+-- see getPuzzleFingerprint in server/model/puzzle.ts.
+-- NULL for the puzzles uploaded before; `yarn backfill-puzzle-fingerprints` fills them in
+
+ALTER TABLE public.puzzles ADD COLUMN fingerprint text;
+
+CREATE INDEX puzzles_fingerprint_idx
+  ON public.puzzles USING btree (fingerprint)
+  WHERE is_public = true;
@@ -0,0 +1,13 @@
+-- the tokens that prove a browser plays as a local id, see issueIdToken in server/model/user.ts.
+-- A local id can have several (one per browser of the account it is linked to).
+-- Like session tokens, only the sha256 of each token is stored
+
+CREATE TABLE public.local_id_tokens
+(
+  token_hash text PRIMARY KEY,
+  local_id text NOT NULL,
+  created_at timestamp without time zone NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX local_id_tokens_local_id_idx
+  ON public.local_id_tokens USING btree (local_id);
@@ -0,0 +1,5 @@
+-- finds whether a local id was used before id tokens existed, as those ids can't go to the first browser to ask
+-- for them (see issueIdToken in server/model/user.ts)
+
+CREATE INDEX IF NOT EXISTS game_events_params_id_idx
+  ON public.game_events USING btree ((event_payload->'params'->>'id'));
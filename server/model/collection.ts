@@ -0,0 +1,107 @@
+import _ from 'lodash';
+import Joi from 'joi';
+import * as uuid from 'uuid';
+import type {CollectionSummaryJson, CreateCollectionRequest, UpdateCollectionRequest} from '@shared/types';
+import {storage} from './storage';
+import type {ListedPuzzle, StoredCollection} from './storage/Storage';
+import {isAdmin} from './user';
+
+// ============= Collections ===========
+// Named, ordered lists of public puzzles (e.g. a week of minis), browsable at /collections.
+
+const MAX_PUZZLES = 100;
+const MAX_LISTED_COLLECTIONS = 200;
+
+const httpError = (message: string, statusCode: number) => _.assign(new Error(message), {statusCode});
+
+const nameValidator = Joi.string().trim().min(1).max(100);
+const pidsValidator = Joi.array().items(Joi.string().required()).max(MAX_PUZZLES).unique();
+
+const createCollectionValidator = Joi.object({
+  name: nameValidator.required(),
+  pids: pidsValidator.required(),
+});
+
+const updateCollectionValidator = Joi.object({
+  name: nameValidator.optional(),
+  pids: pidsValidator.optional(),
+});
+
+function validate<T>(validator: Joi.Schema, value: T): T {
+  const {error, value: converted} = validator.validate(value);
+  if (error) {
+    throw httpError(error.message, 400);
+  }
+  return converted;
+}
+
+async function checkPublicPuzzles(pids: string[]) {
+  const puzzles = await storage.getPublicPuzzles(pids);
+  const missing = _.difference(pids, _.map(puzzles, 'pid'));
+  if (missing.length > 0) {
+    throw httpError(`Puzzles ${missing.join(', ')} do not exist or are not public`, 400);
+  }
+}
+
+async function getCollectionOrThrow(collectionId: string) {
+  const collection = await storage.getCollection(collectionId);
+  if (!collection) {
+    throw httpError(`Collection ${collectionId} does not exist`, 404);
+  }
+  return collection;
+}
+
+// throws unless uid created the collection, or is an admin
+async function checkCollectionOwner(collectionId: string, uid: string) {
+  const collection = await getCollectionOrThrow(collectionId);
+  if (collection.uid !== uid && !(await isAdmin(uid))) {
+    throw httpError(`Collection ${collectionId} can only be changed by the account that created it`, 403);
+  }
+}
+
+const toSummary = (collection: StoredCollection): CollectionSummaryJson => ({
+  collectionId: collection.collectionId,
+  name: collection.name,
+  uid: collection.uid,
+  numPuzzles: collection.pids.length,
+  createdAt: collection.createdAt,
+});
+
+export async function createCollection(uid: string, request: CreateCollectionRequest) {
+  const {name, pids} = validate(createCollectionValidator, request);
+  await checkPublicPuzzles(pids);
+  const collectionId = uuid.v4().substr(0, 8);
+  await storage.addCollection({collectionId, uid, name, pids});
+  return collectionId;
+}
+
+export async function listCollections(): Promise<CollectionSummaryJson[]> {
+  const collections = await storage.listCollections(MAX_LISTED_COLLECTIONS);
+  return collections.map(toSummary);
+}
+
+// the puzzles come in the order of the collection; the ones unlisted since it was created are skipped
+export async function getCollection(
+  collectionId: string
+): Promise<CollectionSummaryJson & {puzzles: ListedPuzzle[]}> {
+  const collection = await getCollectionOrThrow(collectionId);
+  const puzzles = _.keyBy(await storage.getPublicPuzzles(collection.pids), 'pid');
+  return {
+    ...toSummary(collection),
+    puzzles: _.compact(collection.pids.map((pid) => puzzles[pid])),
+  };
+}
+
+export async function updateCollection(collectionId: string, uid: string, update: UpdateCollectionRequest) {
+  const {name, pids} = validate(updateCollectionValidator, update);
+  await checkCollectionOwner(collectionId, uid);
+  if (pids) {
+    await checkPublicPuzzles(pids);
+  }
+  await storage.updateCollection(collectionId, {name, pids});
+}
+
+export async function deleteCollection(collectionId: string, uid: string) {
+  await checkCollectionOwner(collectionId, uid);
+  await storage.deleteCollection(collectionId);
+}
@@ -1,26 +1,9 @@
-import _ from 'lodash';
-import {pool} from './pool';
+import {storage} from './storage';
 
 export async function incrementGid(): Promise<string> {
-  const startTime = Date.now();
-  const {rows} = await pool.query(
-    `
-      SELECT nextval('gid_counter')
-    `
-  );
-  const ms = Date.now() - startTime;
-  console.log(`incrementGid took ${ms}ms`);
-  return _.first(rows)!.nextval as string;
+  return storage.incrementCounter('gid');
 }
 
 export async function incrementPid(): Promise<string> {
-  const startTime = Date.now();
-  const {rows} = await pool.query(
-    `
-      SELECT nextval('pid_counter')
-    `
-  );
-  const ms = Date.now() - startTime;
-  console.log(`incrementPid took ${ms}ms`);
-  return _.first(rows)!.nextval as string;
+  return storage.incrementCounter('pid');
 }
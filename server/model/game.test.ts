@@ -0,0 +1,51 @@
+import {makePuzzle} from '../testUtils';
+import {
+  addGameEvent,
+  addInitialGameEvent,
+  GameEvent,
+  getGameEvents,
+  getGameEventsAfter,
+  isFencingGame,
+} from './game';
+import {addPuzzle} from './puzzle';
+
+const updateCell = (value: string, eventId: string): GameEvent => ({
+  timestamp: Date.now(),
+  type: 'updateCell',
+  params: {cell: {r: 0, c: 0}, value, id: 'player'},
+  id: eventId,
+});
+
+describe('addGameEvent', () => {
+  it('numbers the events of each game in order', async () => {
+    const results = await Promise.all(
+      ['a', 'b', 'c'].map((value) => addGameEvent('seq', updateCell(value, value)))
+    );
+    expect(results.map(({event}) => event.seq)).toEqual([1, 2, 3]);
+    expect((await addGameEvent('other', updateCell('d', 'd'))).event.seq).toBe(1);
+    const events = await getGameEvents('seq');
+    expect(events.map((event) => event.params.value)).toEqual(['a', 'b', 'c']);
+    expect((await getGameEventsAfter('seq', 1)).map((event) => event.seq)).toEqual([2, 3]);
+  });
+
+  it('stores a retried event once, and returns the stored event for the retry', async () => {
+    const first = await addGameEvent('dedupe', updateCell('a', 'event-1'));
+    const retry = await addGameEvent('dedupe', {...updateCell('a', 'event-1'), timestamp: 0});
+    expect(first.isDuplicate).toBe(false);
+    expect(retry).toEqual({event: first.event, isDuplicate: true});
+    expect(await getGameEvents('dedupe')).toHaveLength(1);
+  });
+});
+
+describe('addInitialGameEvent', () => {
+  it('creates a classic or fencing game of the puzzle', async () => {
+    const {pid} = await addPuzzle(makePuzzle(), false);
+    await addInitialGameEvent('classic', pid);
+    await addInitialGameEvent('fencing', pid, {fencing: true});
+    expect(await isFencingGame('classic')).toBe(false);
+    expect(await isFencingGame('fencing')).toBe(true);
+    expect(await isFencingGame('missing')).toBeUndefined();
+    const [createEvent] = await getGameEvents('classic');
+    expect(createEvent.params.game.solution).toEqual(makePuzzle().grid);
+  });
+});
@@ -1,28 +1,36 @@
+import {EventEmitter} from 'events';
 import _ from 'lodash';
+import type {PuzzleJson} from '@shared/types';
+import allEventDefs from '../../src/shared/fencingGameEvents/allEventDefs';
+import type {GameEvent as FencingGameEvent} from '../../src/shared/fencingGameEvents/types/GameEvent';
 // @ts-ignore
 import {makeGrid} from '../gameUtils';
-import {pool} from './pool';
+import {puzzleUpdateEventsDuration} from '../metrics';
 import {getPuzzle} from './puzzle';
+import {storage} from './storage';
 
 export async function getGameEvents(gid: string) {
-  const startTime = Date.now();
-  const res = await pool.query('SELECT event_payload FROM game_events WHERE gid=$1 ORDER BY ts ASC', [gid]);
-  const events = _.map(res.rows, 'event_payload');
-  const ms = Date.now() - startTime;
-  console.log(`getGameEvents(${gid}) took ${ms}ms`);
-  return events;
+  return storage.getGameEvents(gid);
+}
+
+// returns the events of gid with a sequence number strictly greater than seq
+export async function getGameEventsAfter(gid: string, seq: number) {
+  return storage.getGameEventsAfter(gid, seq);
+}
+
+// returns the events of gid at or after the given timestamp (ms since epoch)
+export async function getGameEventsSinceTimestamp(gid: string, timestamp: number) {
+  return storage.getGameEventsSinceTimestamp(gid, timestamp);
 }
 
 export async function getGameInfo(gid: string) {
-  const res = await pool.query("SELECT event_payload FROM game_events WHERE gid=$1 AND event_type='create'", [
-    gid,
-  ]);
-  if (res.rowCount != 1) {
+  const createEvent = await storage.getGameCreateEvent(gid);
+  if (!createEvent) {
     console.log(`Could not find info for game ${gid}`);
     return {};
   }
 
-  const info = res.rows[0].event_payload.params.game.info;
+  const info = createEvent.params.game.info;
   console.log(`${gid} game info: ${JSON.stringify(info)}`);
   return info;
 }
@@ -30,6 +38,8 @@ export async function getGameInfo(gid: string) {
 export interface GameEvent {
   user?: string; // always null actually
   timestamp: number;
+  seq?: number; // assigned by addGameEvent, strictly increasing per gid
+  id?: string; // assigned by the client (uuid), used to dedupe retried events
   type: string; // todo string literal union type
   params: any; // todo extend GameEvent w/ specific types of game events
 }
@@ -40,22 +50,121 @@ export interface InitialGameEvent extends GameEvent {
     pid: string;
     version: string;
     game: any;
+    fencing?: boolean;
   };
 }
 
-export async function addGameEvent(gid: string, event: GameEvent) {
-  const startTime = Date.now();
-  await pool.query(
-    `
-      INSERT INTO game_events (gid, uid, ts, event_type, event_payload)
-      VALUES ($1, $2, $3, $4, $5)`,
-    [gid, event.user, new Date(event.timestamp).toISOString(), event.type, event]
+// whether event is one of the events the fencing reducer handles (unlike e.g. the classic chat event)
+export function isFencingGameEvent(event: GameEvent): event is GameEvent & FencingGameEvent {
+  return event.type in allEventDefs;
+}
+
+export async function isFencingGame(gid: string): Promise<boolean | undefined> {
+  const createEvent = await storage.getGameCreateEvent(gid);
+  if (!createEvent) {
+    return undefined;
+  }
+  return !!createEvent.params.fencing;
+}
+
+// Stores the event under the next sequence number of gid, and returns the event stamped with it.
+// If an event with the same id was already stored (e.g. the client retried after a timeout), nothing is
+// stored and the stored event is returned instead.
+export async function addGameEvent(
+  gid: string,
+  event: GameEvent
+): Promise<{event: GameEvent; isDuplicate: boolean}> {
+  const seq = await storage.addGameEvent(gid, event);
+  if (seq === undefined) {
+    console.log(`addGameEvent(${gid}, ${event.type}) skipped duplicate event ${event.id}`);
+    return {
+      event: (await storage.getGameEventById(gid, event.id!))!,
+      isDuplicate: true,
+    };
+  }
+  return {
+    event: {
+      ...event,
+      seq,
+    },
+    isDuplicate: false,
+  };
+}
+
+// emits ('game_event', gid, event) for the events stored by the server itself, which SocketManager broadcasts
+export const serverGameEvents = new EventEmitter();
+
+// runs store, which stores event in gid. See setServerGameEventQueue
+type ServerGameEventQueue = (
+  gid: string,
+  event: GameEvent,
+  store: () => ReturnType<typeof addGameEvent>
+) => ReturnType<typeof addGameEvent>;
+
+let serverGameEventQueue: ServerGameEventQueue = (gid, event, store) => store();
+
+// SocketManager stores the server events of fencing games through the per-game queue of its FencingManager, so
+// that they are ordered with the events of the players (and the state it checks those against includes them)
+export function setServerGameEventQueue(queue: ServerGameEventQueue) {
+  serverGameEventQueue = queue;
+}
+
+// for events that no client sent, e.g. updatePuzzle
+export async function addServerGameEvent(gid: string, event: GameEvent) {
+  const {event: storedEvent, isDuplicate} = await serverGameEventQueue(gid, event, () =>
+    addGameEvent(gid, event)
   );
-  const ms = Date.now() - startTime;
-  console.log(`addGameEvent(${gid}, ${event.type}) took ${ms}ms`);
+  if (!isDuplicate) {
+    serverGameEvents.emit('game_event', gid, storedEvent);
+  }
+}
+
+// how many games addPuzzleUpdateEvents adds the updatePuzzle event to at once
+const PUZZLE_UPDATE_BATCH_SIZE = 10;
+
+// the puzzle updates still being added to games, see waitForPuzzleUpdateEvents
+const puzzleUpdates = new Set<Promise<void>>();
+
+async function addPuzzleUpdateEventsToGames(pid: string, puzzle: PuzzleJson) {
+  const endTimer = puzzleUpdateEventsDuration.startTimer();
+  const {info = {}, grid: solution} = puzzle;
+  const clues = makeGrid(solution).alignClues(puzzle.clues);
+  const gids = await storage.getUnsolvedGamesOfPuzzle(pid);
+  for (const batch of _.chunk(gids, PUZZLE_UPDATE_BATCH_SIZE)) {
+    // eslint-disable-next-line no-await-in-loop
+    await Promise.all(
+      batch.map((gid) =>
+        addServerGameEvent(gid, {
+          user: '',
+          timestamp: Date.now(),
+          type: 'updatePuzzle',
+          params: {info, solution, clues},
+        }).catch((e) => {
+          console.error(`Could not send the update of puzzle ${pid} to game ${gid}`, e);
+        })
+      )
+    );
+  }
+  endTimer();
+}
+
+// Games copy the solution and clues of their puzzle when created (see addInitialGameEvent), so fixes to the
+// puzzle are sent to its unsolved games as an updatePuzzle event; solved games are left as they were solved.
+// A puzzle can have many unsolved games, so the events are added in the background
+export function addPuzzleUpdateEvents(pid: string, puzzle: PuzzleJson) {
+  const update = addPuzzleUpdateEventsToGames(pid, puzzle).catch((e) => {
+    console.error(`Could not send the update of puzzle ${pid} to its games`, e);
+  });
+  puzzleUpdates.add(update);
+  update.then(() => puzzleUpdates.delete(update));
+}
+
+// resolves once the puzzle updates in progress have been added to every game
+export async function waitForPuzzleUpdateEvents() {
+  await Promise.all(Array.from(puzzleUpdates));
 }
 
-export async function addInitialGameEvent(gid: string, pid: string) {
+export async function addInitialGameEvent(gid: string, pid: string, {fencing = false} = {}) {
   const puzzle = await getPuzzle(pid);
   console.log('got puzzle', puzzle);
   const {info = {}, grid: solution = [['']], circles = []} = puzzle;
@@ -71,6 +180,7 @@ export async function addInitialGameEvent(gid: string, pid: string) {
     params: {
       pid,
       version: 1.0,
+      fencing,
       game: {
         info,
         grid,
@@ -89,5 +199,5 @@ export async function addInitialGameEvent(gid: string, pid: string) {
       },
     },
   };
-  addGameEvent(gid, initialEvent);
+  await addGameEvent(gid, initialEvent);
 }
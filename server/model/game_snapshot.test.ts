@@ -0,0 +1,61 @@
+import _ from 'lodash';
+import {makePuzzle} from '../testUtils';
+import {addGameEvent, addInitialGameEvent} from './game';
+import {getCompactedGameEvents, getGameState, waitForGameSnapshots} from './game_snapshot';
+import {addPuzzle} from './puzzle';
+
+// more than the events between snapshots
+const NUM_EVENTS = 250;
+
+async function addUpdateCellEvents(gid: string, count: number) {
+  for (let i = 0; i < count; i += 1) {
+    // eslint-disable-next-line no-await-in-loop
+    await addGameEvent(gid, {
+      timestamp: Date.now(),
+      type: 'updateCell',
+      params: {cell: {r: 0, c: i % 3}, value: String.fromCharCode(65 + (i % 26)), id: 'player'},
+      id: `event-${i}`,
+    });
+  }
+}
+
+describe('getCompactedGameEvents', () => {
+  it('folds the events of a game into a snapshot after answering', async () => {
+    const {pid} = await addPuzzle(makePuzzle(), false);
+    await addInitialGameEvent('snapshot', pid);
+    await addUpdateCellEvents('snapshot', NUM_EVENTS);
+    const state = await getGameState('snapshot', 'classic');
+
+    const events = await getCompactedGameEvents('snapshot', 'classic');
+    expect(events).toHaveLength(NUM_EVENTS + 1);
+    expect(events[0].type).toBe('create');
+
+    await waitForGameSnapshots();
+    const [snapshotEvent, ...rest] = await getCompactedGameEvents('snapshot', 'classic');
+    expect(rest).toEqual([]);
+    expect(snapshotEvent).toMatchObject({
+      type: 'snapshot',
+      seq: NUM_EVENTS + 1,
+      params: {reducer: 'classic'},
+    });
+    expect(snapshotEvent.params.state).toEqual(state);
+    expect(await getGameState('snapshot', 'classic')).toEqual(state);
+  });
+
+  it('returns the events after the snapshot', async () => {
+    const {pid} = await addPuzzle(makePuzzle(), false);
+    await addInitialGameEvent('after-snapshot', pid);
+    await addUpdateCellEvents('after-snapshot', NUM_EVENTS);
+    await getCompactedGameEvents('after-snapshot', 'classic');
+    await waitForGameSnapshots();
+    await addGameEvent('after-snapshot', {
+      timestamp: Date.now(),
+      type: 'updateCell',
+      params: {cell: {r: 1, c: 1}, value: 'Z', id: 'player'},
+      id: 'last-event',
+    });
+    const events = await getCompactedGameEvents('after-snapshot', 'classic');
+    expect(_.map(events, 'type')).toEqual(['snapshot', 'updateCell']);
+    expect((await getGameState('after-snapshot', 'classic'))!.grid[1][1].value).toBe('Z');
+  });
+});
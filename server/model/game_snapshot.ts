@@ -0,0 +1,177 @@
+import _ from 'lodash';
+import {GameJson, GameSnapshotReducer} from '@shared/types';
+import {reduce as classicReducer} from '../../src/lib/reducers/game';
+import fencingReducer from '../../src/shared/fencingGameEvents/gameReducer';
+import {initialState as fencingInitialState} from '../../src/shared/fencingGameEvents/initialState';
+import {GameState as FencingGameState} from '../../src/shared/fencingGameEvents/types/GameState';
+import {gameSnapshotFoldDuration} from '../metrics';
+import {GameEvent, getGameEvents, getGameEventsAfter, isFencingGameEvent} from './game';
+import {storage} from './storage';
+
+// once this many events have accumulated after the latest snapshot, fold them into a new one
+const SNAPSHOT_INTERVAL = 200;
+
+// the state each reducer folds the events of a game into
+export interface GameSnapshotStates {
+  classic: GameJson;
+  fencing: FencingGameState;
+}
+
+// the state is null for the create event
+type Reducer<S> = (state: S | null, event: GameEvent) => S;
+
+type Reducers<K extends GameSnapshotReducer> = {[R in K]: Reducer<GameSnapshotStates[R]>};
+
+const reducers: Reducers<GameSnapshotReducer> = {
+  classic: (state, event) => classicReducer(state, event),
+  // events the fencing reducer doesn't handle (e.g. the classic chat event) leave the state as is
+  fencing: (state, event) =>
+    isFencingGameEvent(event)
+      ? fencingReducer(state ?? fencingInitialState, event)
+      : state ?? fencingInitialState,
+};
+
+// the values of GameSnapshotReducer, which clients can ask for in SyncAllGameEventsRequest
+export const gameSnapshotReducers = _.keys(reducers) as GameSnapshotReducer[];
+
+export interface GameSnapshot<R extends GameSnapshotReducer = GameSnapshotReducer> {
+  reducer: R;
+  lastEventSeq: number;
+  lastEventTimestamp: number;
+  state: GameSnapshotStates[R];
+}
+
+/**
+ * The pseudo-event sent to clients in place of the events folded into a snapshot.
+ * HistoryWrapper uses it as the base of its memo, in place of the create event.
+ */
+export interface SnapshotGameEvent extends GameEvent {
+  type: 'snapshot';
+  params: {
+    reducer: GameSnapshotReducer;
+    state: GameSnapshotStates[GameSnapshotReducer];
+  };
+}
+
+export async function getGameSnapshot<R extends GameSnapshotReducer>(
+  gid: string,
+  reducer: R
+): Promise<GameSnapshot<R> | undefined> {
+  // the storage keys snapshots by reducer, so the state is the one reducer folds into
+  return storage.getGameSnapshot(gid, reducer) as Promise<GameSnapshot<R> | undefined>;
+}
+
+export async function saveGameSnapshot(gid: string, snapshot: GameSnapshot) {
+  await storage.saveGameSnapshot(gid, snapshot);
+}
+
+// Folds events (sorted by seq) into base, the same way HistoryWrapper replays them
+function foldGameEvents<R extends GameSnapshotReducer>(
+  reducer: R,
+  base: GameSnapshot<R> | undefined,
+  events: GameEvent[]
+): GameSnapshot<R> {
+  // narrowed to R, so that indexing it gives the reducer of R's state
+  const reduce = (reducers as Reducers<R>)[reducer];
+  const [createEvents, otherEvents] = _.partition(events, {type: 'create'});
+  let state = base ? base.state : reduce(null, _.first(createEvents)!);
+  otherEvents.forEach((event) => {
+    state = reduce(state, event);
+  });
+  return {
+    reducer,
+    lastEventSeq: _.last(events)!.seq!,
+    lastEventTimestamp: _.last(events)!.timestamp,
+    state,
+  };
+}
+
+/**
+ * Returns the current state of gid under the given reducer, starting from its latest snapshot.
+ * Returns undefined if the game has not been created.
+ */
+export async function getGameState<R extends GameSnapshotReducer>(
+  gid: string,
+  reducer: R
+): Promise<GameSnapshotStates[R] | undefined> {
+  const snapshot = await getGameSnapshot(gid, reducer);
+  const events: GameEvent[] = snapshot
+    ? await getGameEventsAfter(gid, snapshot.lastEventSeq)
+    : await getGameEvents(gid);
+  if (events.length === 0) {
+    return snapshot?.state;
+  }
+  if (!snapshot && !_.some(events, {type: 'create'})) {
+    return undefined;
+  }
+  return foldGameEvents(reducer, snapshot, events).state;
+}
+
+export function toSnapshotGameEvent(snapshot: GameSnapshot): SnapshotGameEvent {
+  return {
+    timestamp: snapshot.lastEventTimestamp,
+    seq: snapshot.lastEventSeq,
+    type: 'snapshot',
+    params: {
+      reducer: snapshot.reducer,
+      state: snapshot.state,
+    },
+  };
+}
+
+// the folds in progress, by `${gid}:${reducer}`, so that each snapshot is folded by one call at a time
+const compactions = new Map<string, Promise<void>>();
+
+// Folds events into a new snapshot after the current request has been answered
+function compactGameEventsLater<R extends GameSnapshotReducer>(
+  gid: string,
+  reducer: R,
+  base: GameSnapshot<R> | undefined,
+  events: GameEvent[]
+) {
+  const key = `${gid}:${reducer}`;
+  if (compactions.has(key)) {
+    return;
+  }
+  const compaction = new Promise<void>((resolve) => setImmediate(resolve))
+    .then(async () => {
+      const endTimer = gameSnapshotFoldDuration.startTimer({reducer});
+      const snapshot = foldGameEvents(reducer, base, events);
+      endTimer();
+      await saveGameSnapshot(gid, snapshot);
+    })
+    .catch((e) => {
+      console.error(`Could not compact the events of ${gid} (${reducer})`, e);
+    })
+    .then(() => {
+      compactions.delete(key);
+    });
+  compactions.set(key, compaction);
+}
+
+// resolves once the snapshots being folded have been saved
+export async function waitForGameSnapshots() {
+  await Promise.all(Array.from(compactions.values()));
+}
+
+/**
+ * Returns the latest snapshot of gid (as a SnapshotGameEvent) followed by the events after it.
+ * When enough events have piled up after the latest snapshot, they are compacted into a new one in the
+ * background, for the next sync to start from.
+ */
+export async function getCompactedGameEvents(gid: string, reducer: GameSnapshotReducer) {
+  const snapshot = await getGameSnapshot(gid, reducer);
+  const events: GameEvent[] = snapshot
+    ? await getGameEventsAfter(gid, snapshot.lastEventSeq)
+    : await getGameEvents(gid);
+
+  const canFold = snapshot || _.some(events, {type: 'create'});
+  if (canFold && events.length >= SNAPSHOT_INTERVAL) {
+    compactGameEventsLater(gid, reducer, snapshot, events);
+  }
+
+  if (!snapshot) {
+    return events;
+  }
+  return [toSnapshotGameEvent(snapshot), ...events];
+}
@@ -0,0 +1,194 @@
+import _ from 'lodash';
+import {makeClueList, makePuzzle} from '../testUtils';
+import {
+  addPuzzle,
+  getPuzzle,
+  getPuzzleFingerprint,
+  getPuzzleProblems,
+  listPuzzles,
+  updatePuzzle,
+} from './puzzle';
+
+const allSizes = {sizeFilter: {Mini: true, Standard: true}, nameOrTitleFilter: ''};
+
+// a private puzzle uploaded by an account of its own
+async function uploadPuzzle() {
+  const uid = _.uniqueId('uploader-');
+  const {pid} = await addPuzzle(makePuzzle(), false, undefined, uid);
+  return {pid, uid};
+}
+
+describe('getPuzzleFingerprint', () => {
+  it('ignores case and whitespace', () => {
+    const puzzle = makePuzzle();
+    const reupload = makePuzzle({
+      info: {...puzzle.info, title: '  test   PUZZLE ', author: 'tester'},
+      clues: {
+        across: makeClueList({1: 'abc ', 4: 'DEF', 5: ' Ghi'}),
+        down: puzzle.clues.down,
+      },
+    });
+    expect(getPuzzleFingerprint(reupload)).toBe(getPuzzleFingerprint(puzzle));
+  });
+
+  it('ignores the fields other than the answers, the clues, the title and the author', () => {
+    const puzzle = makePuzzle();
+    const reupload = makePuzzle({circles: ['0'], info: {...puzzle.info, description: 'New description'}});
+    expect(getPuzzleFingerprint(reupload)).toBe(getPuzzleFingerprint(puzzle));
+  });
+
+  it('tells apart puzzles with different answers or clues', () => {
+    const puzzle = makePuzzle();
+    const fingerprint = getPuzzleFingerprint(puzzle);
+    expect(getPuzzleFingerprint(makePuzzle({grid: [['X', 'B', 'C'], ...puzzle.grid.slice(1)]}))).not.toBe(
+      fingerprint
+    );
+    expect(
+      getPuzzleFingerprint(makePuzzle({clues: {...puzzle.clues, down: makeClueList({1: 'Other'})}}))
+    ).not.toBe(fingerprint);
+  });
+
+  it('counts missing fields as empty', () => {
+    expect(getPuzzleFingerprint({})).toBe(getPuzzleFingerprint({grid: [], clues: {across: [], down: []}}));
+    expect(() => getPuzzleFingerprint({grid: [['A']]})).not.toThrow();
+  });
+});
+
+describe('getPuzzleProblems', () => {
+  it('finds no problems in a valid puzzle', () => {
+    expect(getPuzzleProblems(makePuzzle())).toEqual([]);
+  });
+
+  it('finds ragged rows', () => {
+    const grid = [
+      ['A', 'B', 'C'],
+      ['D', 'E'],
+      ['G', 'H', 'I'],
+    ];
+    expect(getPuzzleProblems(makePuzzle({grid}))).toEqual(['Row 2 has 2 cells, but row 1 has 3']);
+  });
+
+  it('finds missing and extra clues', () => {
+    const clues = {
+      across: makeClueList({1: 'Abc', 4: 'Def', 5: 'Ghi', 7: 'Extra'}),
+      down: makeClueList({1: 'Adg', 2: 'Beh'}),
+    };
+    expect(getPuzzleProblems(makePuzzle({clues}))).toEqual([
+      'There is a clue for 7 across, which is not in the grid',
+      '3 down has no clue',
+    ]);
+  });
+
+  it('finds circles outside the grid', () => {
+    expect(getPuzzleProblems(makePuzzle({circles: ['9']}))).toEqual([
+      'The circles include cell 9, which is outside the 3x3 grid',
+    ]);
+  });
+
+  it('describes puzzles with missing fields', () => {
+    expect(getPuzzleProblems({})).toEqual(['The grid is empty']);
+    expect(getPuzzleProblems({grid: makePuzzle().grid})).toContain('1 across has no clue');
+  });
+});
+
+describe('addPuzzle', () => {
+  it('rejects puzzles without a grid, info or clues', async () => {
+    await expect(addPuzzle({} as any)).rejects.toMatchObject({statusCode: 400});
+    await expect(addPuzzle(makePuzzle({clues: undefined}))).rejects.toMatchObject({statusCode: 400});
+  });
+
+  it('rejects puzzles with problems, listing them', async () => {
+    await expect(addPuzzle(makePuzzle({circles: ['9']}))).rejects.toMatchObject({
+      statusCode: 400,
+      problems: ['The circles include cell 9, which is outside the 3x3 grid'],
+    });
+  });
+
+  it('returns the pid of a public puzzle with the same fingerprint', async () => {
+    const puzzle = makePuzzle({info: {...makePuzzle().info, title: 'Duplicate'}});
+    const {pid} = await addPuzzle(puzzle, true);
+    expect(await addPuzzle(makePuzzle({...puzzle, circles: ['1']}), true)).toEqual({pid, duplicate: true});
+    // even when the client picked a pid of its own, which then stays unused
+    expect(await addPuzzle(puzzle, false, 'unused-pid')).toEqual({pid, duplicate: true});
+    await expect(getPuzzle('unused-pid')).rejects.toThrow('Puzzle unused-pid does not exist');
+    expect((await addPuzzle(puzzle, true, undefined, undefined, {allowDuplicate: true})).pid).not.toBe(pid);
+  });
+});
+
+describe('updatePuzzle', () => {
+  it('fixes the clues and answers, and keeps the info fields missing from the update', async () => {
+    const {pid, uid} = await uploadPuzzle();
+    const grid = [
+      ['X', 'B', 'C'],
+      ['D', 'E', 'F'],
+      ['G', 'H', 'I'],
+    ];
+    const clues = {...makePuzzle().clues, across: makeClueList({1: 'Xbc', 4: 'Def', 5: 'Ghi'})};
+    await updatePuzzle(pid, uid, {grid, clues, info: {title: 'Fixed Title'}});
+
+    const puzzle = await getPuzzle(pid);
+    expect(puzzle.grid).toEqual(grid);
+    expect(puzzle.clues.across[1]).toBe('Xbc');
+    expect(puzzle.info).toEqual({...makePuzzle().info, title: 'Fixed Title'});
+  });
+
+  it('accepts clue lists sent as JSON, with null for the numbers without a clue', async () => {
+    const {pid, uid} = await uploadPuzzle();
+    const clues = JSON.parse(JSON.stringify(makePuzzle().clues));
+    expect(clues.across[0]).toBeNull();
+    await expect(updatePuzzle(pid, uid, {clues})).resolves.toMatchObject({puzzle: {clues}});
+    const down = [null, 'Adg', 2, 'Cfi'];
+    await expect(updatePuzzle(pid, uid, {clues: {...clues, down}})).rejects.toMatchObject({
+      statusCode: 400,
+      message: '"clues.down[2]" must be a string',
+    });
+  });
+
+  it('rejects updates that leave the puzzle with problems', async () => {
+    const {pid, uid} = await uploadPuzzle();
+    const clues = {...makePuzzle().clues, across: makeClueList({1: '', 4: 'Def', 5: 'Ghi'})};
+    await expect(updatePuzzle(pid, uid, {clues})).rejects.toMatchObject({
+      statusCode: 400,
+      problems: ['1 across has no clue'],
+    });
+    expect((await getPuzzle(pid)).clues.across[1]).toBe('Abc');
+  });
+
+  it('only lets the account that uploaded the puzzle change it', async () => {
+    const {pid} = await uploadPuzzle();
+    await expect(updatePuzzle(pid, 'someone-else', {isPublic: true})).rejects.toMatchObject({
+      statusCode: 403,
+    });
+    await expect(updatePuzzle('missing', 'someone-else', {isPublic: true})).rejects.toMatchObject({
+      statusCode: 404,
+    });
+  });
+});
+
+describe('listPuzzles', () => {
+  it('pages through the puzzles with cursors, without skipping or repeating any', async () => {
+    const pids = [];
+    for (let i = 0; i < 5; i += 1) {
+      const title = `Cursor ${i}`;
+      // eslint-disable-next-line no-await-in-loop
+      pids.push((await addPuzzle(makePuzzle({info: {...makePuzzle().info, title}}), true)).pid);
+    }
+    const filter = {...allSizes, nameOrTitleFilter: 'cursor', sort: 'newest' as const};
+    const listed = [];
+    let cursor: string | undefined;
+    do {
+      // eslint-disable-next-line no-await-in-loop
+      const page = await listPuzzles(filter, 2, 0, cursor);
+      expect(page.puzzles.length).toBeLessThanOrEqual(2);
+      listed.push(...page.puzzles.map((puzzle) => puzzle.pid));
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+    expect(listed.sort()).toEqual(pids.sort());
+  });
+
+  it('rejects invalid cursors', async () => {
+    await expect(listPuzzles(allSizes, 2, 0, 'not a cursor')).rejects.toMatchObject({statusCode: 400});
+    const wrongShape = Buffer.from(JSON.stringify({a: 1})).toString('base64');
+    await expect(listPuzzles(allSizes, 2, 0, wrongShape)).rejects.toMatchObject({statusCode: 400});
+  });
+});
@@ -1,189 +1,316 @@
 import _ from 'lodash';
+import crypto from 'crypto';
 import Joi from 'joi';
 import * as uuid from 'uuid';
-import {PuzzleJson, ListPuzzleRequestFilters} from '@shared/types';
-import {pool} from './pool';
-
-// ================ Read and Write methods used to interface with postgres ========== //
+import {AddPuzzleResponse, PuzzleJson, ListPuzzleRequestFilters, UpdatePuzzleRequest} from '@shared/types';
+import {makeGrid} from '../gameUtils';
+import {storage} from './storage';
+import type {ListedPuzzle, ListPuzzlesCursor, OwnedPuzzle} from './storage/Storage';
+import {isAdmin} from './user';
+import {markGameSolved} from './user_game';
 
 export async function getPuzzle(pid: string): Promise<PuzzleJson> {
-  const startTime = Date.now();
-  const {rows} = await pool.query(
-    `
-      SELECT content
-      FROM puzzles
-      WHERE pid = $1
-    `,
-    [pid]
-  );
-  const ms = Date.now() - startTime;
-  console.log(`getPuzzle (${pid}) took ${ms}ms`);
-  return _.first(rows)!.content;
+  const puzzle = await storage.getPuzzle(pid);
+  if (!puzzle) {
+    throw new Error(`Puzzle ${pid} does not exist`);
+  }
+  return puzzle;
 }
 
-const mapSizeFilterForDB = (sizeFilter: ListPuzzleRequestFilters['sizeFilter']): string[] => {
-  const ret = [];
-  if (sizeFilter.Mini) {
-    ret.push('Mini Puzzle');
+// the cursors of listPuzzles are opaque to clients: base64 JSON of the position of the last puzzle of a page
+const cursorValidator = Joi.array()
+  .items(Joi.alternatives(Joi.string(), Joi.number(), Joi.valid(null)))
+  .min(1)
+  .max(5);
+
+const encodeCursor = (cursor: ListPuzzlesCursor) => Buffer.from(JSON.stringify(cursor)).toString('base64');
+
+function decodeCursor(cursor: string): ListPuzzlesCursor {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64').toString());
+  } catch (e) {
+    decoded = undefined;
   }
-  if (sizeFilter.Standard) {
-    ret.push('Daily Puzzle');
+  const {error, value} = cursorValidator.validate(decoded, {presence: 'required'});
+  if (error) {
+    throw _.assign(new Error('Invalid cursor'), {statusCode: 400});
   }
-  return ret;
-};
+  return value;
+}
 
+// the page after cursor if given, otherwise the page at offset
 export async function listPuzzles(
   filter: ListPuzzleRequestFilters,
   limit: number,
-  offset: number
-): Promise<
-  {
-    pid: string;
-    content: PuzzleJson;
-    times_solved: number;
-  }[]
-> {
-  const startTime = Date.now();
-  const parametersForTitleAuthorFilter = filter.nameOrTitleFilter.split(/\s/).map((s) => `%${s}%`);
-  const parameterOffset = 4;
-  // see https://github.com/brianc/node-postgres/wiki/FAQ#11-how-do-i-build-a-where-foo-in--query-to-find-rows-matching-an-array-of-values
-  // for why this is okay.
-  // we create the query this way as POSTGRES optimizer does not use the index for an ILIKE ALL cause, but will for multiple ands
-  // note this is not vulnerable to SQL injection because this string is just dynamically constructing params of the form $#
-  // which we fully control.
-  const parameterizedTileAuthorFilter = parametersForTitleAuthorFilter
-    .map(
-      (_s, idx) =>
-        `AND ((content -> 'info' ->> 'title') || ' ' || (content->'info'->>'author')) ILIKE $${
-          idx + parameterOffset
-        }`
-    )
-    .join('\n');
-  const {rows} = await pool.query(
-    `
-      SELECT pid, uploaded_at, content, times_solved
-      FROM puzzles
-      WHERE is_public = true
-      AND (content->'info'->>'type') = ANY($1)
-      ${parameterizedTileAuthorFilter}
-      ORDER BY pid_numeric DESC 
-      LIMIT $2
-      OFFSET $3
-    `,
-    [mapSizeFilterForDB(filter.sizeFilter), limit, offset, ...parametersForTitleAuthorFilter]
-  );
-  const puzzles = rows.map(
-    (row: {
-      pid: string;
-      uploaded_at: string;
-      is_public: boolean;
-      content: PuzzleJson;
-      times_solved: string;
-      // NOTE: numeric returns as string in pg-promise
-      // See https://stackoverflow.com/questions/39168501/pg-promise-returns-integers-as-strings
-    }) => ({
-      ...row,
-      times_solved: Number(row.times_solved),
-    })
+  offset: number,
+  cursor?: string
+): Promise<{puzzles: ListedPuzzle[]; nextCursor: string | null}> {
+  const page = await storage.listPuzzles(
+    filter,
+    limit,
+    cursor ? 0 : offset,
+    cursor ? decodeCursor(cursor) : undefined
   );
-  const ms = Date.now() - startTime;
-  console.log(`listPuzzles (${JSON.stringify(filter)}, ${limit}, ${offset}) took ${ms}ms`);
-  return puzzles;
+  return {
+    puzzles: page.puzzles,
+    nextCursor: page.cursor && encodeCursor(page.cursor),
+  };
 }
 
 const string = () => Joi.string().allow(''); // https://github.com/sideway/joi/blob/master/API.md#string
 
+const infoValidator = Joi.object({
+  type: string().optional(),
+  title: string(),
+  author: string(),
+  copyright: string().optional(),
+  description: string().optional(),
+});
+
+// indexed by clue number: the numbers without a clue are null (or holes, before JSON)
+const clueListValidator = Joi.array().items(string().allow(null)).sparse();
+
+const cluesValidator = Joi.object({
+  across: clueListValidator,
+  down: clueListValidator,
+});
+
+const gridValidator = Joi.array().items(Joi.array().items(string()));
+
 const puzzleValidator = Joi.object({
-  grid: Joi.array().items(Joi.array().items(string())),
-  info: Joi.object({
-    type: string().optional(),
-    title: string(),
-    author: string(),
-    copyright: string().optional(),
-    description: string().optional(),
-  }),
+  grid: gridValidator.required(),
+  info: infoValidator.required(),
   circles: Joi.array().optional(),
   shades: Joi.array().optional(),
-  clues: Joi.object({
-    across: Joi.array(),
-    down: Joi.array(),
-  }),
+  clues: cluesValidator.required(),
   private: Joi.boolean().optional(),
+})
+  .required()
+  .label('puzzle');
+
+// tags are lowercased, e.g. "Themeless" is the same tag as "themeless"
+const tagsValidator = Joi.array()
+  .items(
+    Joi.string()
+      .trim()
+      .lowercase()
+      .required()
+      .max(32)
+      .pattern(/^[a-z0-9]+(-[a-z0-9]+)*$/)
+      .message('tags may only contain letters, digits and dashes')
+  )
+  .max(10);
+
+const updatePuzzleValidator = Joi.object({
+  isPublic: Joi.boolean().optional(),
+  info: infoValidator.optional(),
+  clues: cluesValidator.optional(),
+  grid: gridValidator.optional(),
+  tags: tagsValidator.optional(),
 });
 
+// the problems of the structure of the puzzle, which puzzleValidator doesn't see: e.g. a ragged grid,
+// or clues that don't line up with its numbering. empty if there are none.
+// Missing fields count as empty, so that it can also describe puzzles puzzleValidator rejects
+export function getPuzzleProblems(puzzle: Partial<PuzzleJson>): string[] {
+  const {grid = [], clues} = puzzle;
+  const numCols = _.size(grid[0]);
+  if (numCols === 0) {
+    return ['The grid is empty'];
+  }
+  const raggedRows = _.filter(_.range(grid.length), (r) => _.size(grid[r]) !== numCols);
+  if (raggedRows.length > 0) {
+    // the numbering below needs a rectangular grid
+    return raggedRows.map((r) => `Row ${r + 1} has ${_.size(grid[r])} cells, but row 1 has ${numCols}`);
+  }
+  const problems: string[] = [];
+  // alignClues has an entry for every numbered slot, and only for those
+  const slots = makeGrid(grid).alignClues(undefined);
+  (['across', 'down'] as const).forEach((direction) => {
+    const directionClues = clues?.[direction] ?? [];
+    const numbers = _.union(_.keys(slots[direction]), _.keys(directionClues)).map(Number);
+    _.sortBy(numbers).forEach((number) => {
+      const hasSlot = slots[direction][number] !== undefined;
+      const hasClue = !!directionClues[number];
+      if (hasSlot && !hasClue) {
+        problems.push(`${number} ${direction} has no clue`);
+      } else if (!hasSlot && hasClue) {
+        problems.push(`There is a clue for ${number} ${direction}, which is not in the grid`);
+      }
+    });
+  });
+  // circles and shades are the indices of cells, row by row
+  const numCells = grid.length * numCols;
+  (['circles', 'shades'] as const).forEach((key) => {
+    _.forEach(puzzle[key], (index) => {
+      if (!(Number.isInteger(Number(index)) && Number(index) >= 0 && Number(index) < numCells)) {
+        problems.push(
+          `The ${key} include cell ${index}, which is outside the ${grid.length}x${numCols} grid`
+        );
+      }
+    });
+  });
+  return problems;
+}
+
+function checkPuzzleProblems(puzzle: PuzzleJson) {
+  const problems = getPuzzleProblems(puzzle);
+  if (problems.length > 0) {
+    throw _.assign(new Error(`The puzzle has ${problems.length} problem(s)`), {statusCode: 400, problems});
+  }
+}
+
 function validatePuzzle(puzzle: any) {
   console.log(_.keys(puzzle));
   const {error} = puzzleValidator.validate(puzzle);
   if (error) {
-    throw new Error(error.message);
+    throw _.assign(new Error(error.message), {statusCode: 400});
   }
+  checkPuzzleProblems(puzzle);
+}
+
+// the same for re-uploads of a puzzle (e.g. from another download of its .puz): only the answers, the clues,
+// the title and the author count, regardless of case and whitespace.
+// Missing fields count as empty, as some puzzles stored before validatePuzzle lack them
+export function getPuzzleFingerprint(puzzle: Partial<PuzzleJson>) {
+  const {grid = [], clues, info} = puzzle;
+  const normalize = (text: string | null | undefined) => _.toLower(_.trim(text ?? '').replace(/\s+/g, ' '));
+  const canonical = {
+    grid: _.map(grid, (row) => _.map(row, normalize)),
+    // Array.from also fills the holes of the clue lists, which are indexed by clue number
+    across: Array.from(clues?.across ?? [], normalize),
+    down: Array.from(clues?.down ?? [], normalize),
+    title: normalize(info?.title),
+    author: normalize(info?.author),
+  };
+  return crypto.createHash('sha256').update(JSON.stringify(canonical)).digest('hex');
 }
 
-export async function addPuzzle(puzzle: PuzzleJson, isPublic = false, pid?: string) {
+// uid is the account uploading the puzzle, which can then update or delete it.
+// unless allowDuplicate, a puzzle that is already public isn't uploaded again; its pid is returned instead
+export async function addPuzzle(
+  puzzle: PuzzleJson,
+  isPublic = false,
+  pid?: string,
+  uid?: string,
+  {allowDuplicate = false} = {}
+): Promise<AddPuzzleResponse> {
+  validatePuzzle(puzzle);
+  const fingerprint = getPuzzleFingerprint(puzzle);
+  if (!allowDuplicate) {
+    const duplicatePid = await storage.getPublicPuzzleByFingerprint(fingerprint);
+    if (duplicatePid) {
+      return {pid: duplicatePid, duplicate: true};
+    }
+  }
   if (!pid) {
     pid = uuid.v4().substr(0, 8);
   }
-  validatePuzzle(puzzle);
-  const uploaded_at = Date.now();
-  await pool.query(
-    `
-      INSERT INTO puzzles (pid, uploaded_at, is_public, content, pid_numeric)
-      VALUES ($1, to_timestamp($2), $3, $4, $5)`,
-    [pid, uploaded_at / 1000, isPublic, puzzle, pid]
-  );
-  return pid;
-}
-
-async function isGidAlreadySolved(gid: string) {
-  // Note: This gate makes use of the assumption "one pid per gid";
-  // The unique index on (pid, gid) is more strict than this
-  const {
-    rows: [{count}],
-  } = await pool.query(
-    `
-    SELECT COUNT(*)
-    FROM puzzle_solves
-    WHERE gid=$1
-  `,
-    [gid]
+  await storage.addPuzzle(pid, puzzle, isPublic, fingerprint, uid);
+  return {pid};
+}
+
+// throws unless uid uploaded the puzzle (or is an admin, if allowed)
+async function checkPuzzleOwner(pid: string, uid: string, {allowAdmins = false} = {}) {
+  const owner = await storage.getPuzzleUid(pid);
+  if (owner === undefined) {
+    throw _.assign(new Error(`Puzzle ${pid} does not exist`), {statusCode: 404});
+  }
+  if (owner !== uid && !(allowAdmins && (await isAdmin(uid)))) {
+    throw _.assign(new Error(`Puzzle ${pid} can only be changed by the account that uploaded it`), {
+      statusCode: 403,
+    });
+  }
+}
+
+// the same clues must be numbered, so that games and solves of the puzzle still make sense
+function checkSameClueNumbers(clues: PuzzleJson['clues'], newClues: PuzzleJson['clues']) {
+  const numbers = (list: string[] = []) =>
+    _.keys(_.pickBy(list, (clue) => clue !== null && clue !== undefined));
+  const sameNumbers = (['across', 'down'] as const).every((direction) =>
+    _.isEqual(numbers(clues[direction]), numbers(newClues[direction]))
   );
-  return count > 0;
+  if (!sameNumbers) {
+    throw _.assign(new Error('Updated clues must keep the same numbers as the puzzle'), {statusCode: 400});
+  }
 }
 
-export async function recordSolve(pid: string, gid: string, timeToSolve: number) {
-  const solved_time = Date.now();
+// only letters can be fixed: the shape and black cells must stay, so that the cells of games still line up
+function checkSameGridShape(grid: string[][], newGrid: string[][]) {
+  const shape = (g: string[][]) => g.map((row) => row.map((cell) => cell === '.'));
+  if (!_.isEqual(shape(grid), shape(newGrid))) {
+    throw _.assign(new Error('Updated grid must keep the same size and black cells as the puzzle'), {
+      statusCode: 400,
+    });
+  }
+}
 
-  // Clients may log a solve multiple times; skip logging after the first one goes through
-  if (await isGidAlreadySolved(gid)) {
-    return;
+// the fields of a puzzle its games copy, see addPuzzleUpdateEvents
+const gameFields = ['grid', 'info', 'clues'] as const;
+
+// returns the updated puzzle, and whether the fields its games copy changed
+export async function updatePuzzle(pid: string, uid: string, update: UpdatePuzzleRequest) {
+  const {error, value} = updatePuzzleValidator.validate(update);
+  if (error) {
+    throw _.assign(new Error(error.message), {statusCode: 400});
   }
-  const client = await pool.connect();
+  // admins can tag any puzzle, but not change it otherwise
+  const onlyTags = _.isEqual(_.keys(_.omitBy(update, _.isUndefined)), ['tags']);
+  await checkPuzzleOwner(pid, uid, {allowAdmins: onlyTags});
+  const puzzle = await getPuzzle(pid);
+  if (update.clues) {
+    checkSameClueNumbers(puzzle.clues, update.clues);
+  }
+  if (update.grid) {
+    checkSameGridShape(puzzle.grid, update.grid);
+  }
+  const content: PuzzleJson = {
+    ...puzzle,
+    grid: update.grid ?? puzzle.grid,
+    // the fields missing from update.info are kept
+    info: {...puzzle.info, ...update.info},
+    clues: update.clues ?? puzzle.clues,
+    // kept in sync with is_public, as the upload form sets it
+    private: update.isPublic !== undefined ? !update.isPublic : puzzle.private,
+  };
+  if (update.grid || update.clues) {
+    // e.g. an emptied clue. Only checked when the update can cause them, so that the puzzles stored before
+    // validatePuzzle can still be tagged and unlisted
+    checkPuzzleProblems(content);
+  }
+  await storage.updatePuzzle(pid, {
+    content,
+    fingerprint: getPuzzleFingerprint(content),
+    isPublic: update.isPublic,
+    tags: value.tags && _.uniq(value.tags as string[]),
+  });
+  return {
+    puzzle: content,
+    changedForGames: !_.isEqual(_.pick(content, gameFields), _.pick(puzzle, gameFields)),
+  };
+}
 
-  // The frontend clients are designed in a way that concurrent double logs are fairly common
-  // we use a transaction here as it lets us only update if we are able to insert a solve (in case we double log a solve).
+export async function deletePuzzle(pid: string, uid: string) {
+  await checkPuzzleOwner(pid, uid);
+  await storage.deletePuzzle(pid);
+}
 
-  try {
-    await client.query('BEGIN');
-    await client.query(
-      `
-      INSERT INTO puzzle_solves (pid, gid, solved_time, time_taken_to_solve)
-      VALUES ($1, $2, to_timestamp($3), $4)
-    `,
-      [pid, gid, solved_time / 1000.0, timeToSolve]
-    );
-    await client.query(
-      `
-      UPDATE puzzles SET times_solved = times_solved + 1
-      WHERE pid = $1
-    `,
-      [pid]
-    );
-    await client.query('COMMIT');
-  } catch (e) {
-    await client.query('ROLLBACK');
-  } finally {
-    client.release();
+export async function listUserPuzzles(uid: string): Promise<OwnedPuzzle[]> {
+  return storage.listUserPuzzles(uid);
+}
+
+export async function listPopularTags(limit: number) {
+  return storage.listPopularTags(limit);
+}
+
+export async function recordSolve(pid: string, gid: string, timeToSolve: number) {
+  // Clients may log a solve multiple times; skip logging after the first one goes through
+  if (await storage.isGidAlreadySolved(gid)) {
+    return;
   }
+  await storage.addPuzzleSolve(pid, gid, timeToSolve);
+  await markGameSolved(gid);
 }
 
 export async function getPuzzleInfo(pid: string) {
@@ -1,5 +1,5 @@
 import _ from 'lodash';
-import {pool} from './pool';
+import {storage} from './storage';
 import moment from 'moment';
 import {PuzzleJson} from '@shared/types';
 
@@ -14,7 +14,7 @@ export type SolvedPuzzleType = {
   size: string;
 };
 
-type RawFetchedPuzzleSolve = {
+export type RawFetchedPuzzleSolve = {
   pid: string;
   gid: string;
   content: PuzzleJson;
@@ -27,25 +27,7 @@ type RawFetchedPuzzleSolve = {
 };
 
 export async function getPuzzleSolves(gids: string[]): Promise<SolvedPuzzleType[]> {
-  const startTime = Date.now();
-  const {rows}: {rows: RawFetchedPuzzleSolve[]} = await pool.query(
-    `
-      SELECT
-        p.content,
-        ps.pid,
-        ps.gid,
-        ps.solved_time,
-        ps.time_taken_to_solve,
-        ge.event_type,
-        ge.event_payload
-      FROM puzzle_solves ps
-      JOIN puzzles p on ps.pid = p.pid
-      LEFT JOIN game_events ge
-        ON ps.gid = ge.gid AND ge.event_type IN ('check', 'reveal')
-      WHERE ps.gid = ANY($1)
-    `,
-    [gids]
-  );
+  const rows = await storage.getPuzzleSolves(gids);
   const puzzleIds = new Map<string, RawFetchedPuzzleSolve>();
   const revealedSquareByPuzzle = new Map<string, Set<string>>();
   const checkedSquareByPuzzle = new Map<string, Set<string>>();
@@ -84,7 +66,5 @@ export async function getPuzzleSolves(gids: string[]): Promise<SolvedPuzzleType[
       };
     })
     .sort((a, b) => b.solved_time.utc().valueOf() - a.solved_time.utc().valueOf());
-  const ms = Date.now() - startTime;
-  console.log(`getPuzzleSolves took ${ms}ms for ${gids.length} gids`);
   return puzzleSolves;
 }
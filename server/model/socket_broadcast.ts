@@ -0,0 +1,19 @@
+import _ from 'lodash';
+import {pool} from './pool';
+
+// how long to keep a stored broadcast around for the other servers to fetch it
+const BROADCAST_TTL = '1 minute';
+
+export async function saveSocketBroadcast(payload: object): Promise<number> {
+  const {rows} = await pool.query('INSERT INTO socket_broadcasts (payload) VALUES ($1) RETURNING id', [
+    payload,
+  ]);
+  await pool.query(`DELETE FROM socket_broadcasts WHERE created_at < NOW() - interval '${BROADCAST_TTL}'`);
+  // NOTE: bigint returns as string in pg
+  return Number(_.first(rows).id);
+}
+
+export async function getSocketBroadcast(id: number) {
+  const {rows} = await pool.query('SELECT payload FROM socket_broadcasts WHERE id=$1', [id]);
+  return _.first(rows)?.payload;
+}
@@ -0,0 +1,86 @@
+// a type import, as @shared/roomEvents imports the firebase client
+import type {RoomEvent, RoomEventType} from '@shared/roomEvents';
+import type {ListPuzzleRequestFilters} from '@shared/types';
+import _ from 'lodash';
+import {makePuzzle} from '../../testUtils';
+import MemoryStorage from './MemoryStorage';
+
+const updateCell = (id: string) => ({
+  timestamp: Date.now(),
+  type: 'updateCell',
+  params: {cell: {r: 0, c: 0}, value: 'A', id: 'player'},
+  id,
+});
+
+describe('MemoryStorage', () => {
+  it('counts gids and pids separately', async () => {
+    const storage = new MemoryStorage();
+    const gid = Number(await storage.incrementCounter('gid'));
+    expect(await storage.incrementCounter('gid')).toBe(String(gid + 1));
+    expect(await storage.incrementCounter('pid')).toBe(String(gid));
+  });
+
+  it('numbers the game and room events of each id, and skips events it already has', async () => {
+    const storage = new MemoryStorage();
+    expect(await storage.addGameEvent('gid', updateCell('a'))).toBe(1);
+    expect(await storage.addGameEvent('gid', updateCell('b'))).toBe(2);
+    expect(await storage.addGameEvent('gid', updateCell('a'))).toBeUndefined();
+    expect(await storage.addGameEvent('other', updateCell('a'))).toBe(1);
+    const roomEvent: RoomEvent = {
+      timestamp: Date.now(),
+      type: 'USER_PING' as RoomEventType.USER_PING,
+      params: {uid: 'player'},
+      uid: 'player',
+    };
+    await storage.addRoomEvent('rid', roomEvent);
+    await storage.addRoomEvent('rid', roomEvent);
+    expect((await storage.getRoomEvents('rid')).map((event) => event.seq)).toEqual([1, 2]);
+  });
+
+  it('returns copies of what it stores, like a database would', async () => {
+    const storage = new MemoryStorage();
+    await storage.addGameEvent('gid', updateCell('a'));
+    const [event] = await storage.getGameEvents('gid');
+    event.params.value = 'B';
+    expect((await storage.getGameEvents('gid'))[0].params.value).toBe('A');
+  });
+
+  it('keeps the number and average time of the solves of each puzzle', async () => {
+    const storage = new MemoryStorage();
+    await storage.addPuzzle('1', makePuzzle(), true, 'fingerprint-1');
+    await storage.addPuzzle('2', makePuzzle(), true, 'fingerprint-2');
+    await storage.addPuzzleSolve('1', 'gid-1', 10);
+    await storage.addPuzzleSolve('1', 'gid-2', 20);
+    await storage.addPuzzleSolve('1', 'gid-2', 30); // already solved
+    await storage.addPuzzleSolve('2', 'gid-3', 12);
+    expect(await storage.isGidAlreadySolved('gid-2')).toBe(true);
+    const filter = {sizeFilter: {Mini: true, Standard: true}, nameOrTitleFilter: ''};
+    const {puzzles} = await storage.listPuzzles({...filter, sort: 'averageSolveTime'}, 10, 0);
+    expect(puzzles.map(({pid, times_solved}) => [pid, times_solved])).toEqual([
+      ['2', 1],
+      ['1', 2],
+    ]);
+  });
+
+  it('lists the puzzles of the size buckets picked, with Sunday and Variety following Standard if omitted', async () => {
+    const storage = new MemoryStorage();
+    const sizes = {mini: [5, 5], standard: [15, 15], sunday: [21, 21], variety: [5, 30]};
+    await Promise.all(
+      _.map(sizes, ([numRows, numCols], pid) => {
+        const grid = _.times(numRows, () => _.times(numCols, () => 'A'));
+        return storage.addPuzzle(pid, makePuzzle({grid}), true, pid);
+      })
+    );
+    const listPids = async (sizeFilter: ListPuzzleRequestFilters['sizeFilter']) => {
+      const {puzzles} = await storage.listPuzzles({sizeFilter, nameOrTitleFilter: ''}, 10, 0);
+      return _.sortBy(_.map(puzzles, 'pid'));
+    };
+    expect(await listPids({Mini: true, Standard: false})).toEqual(['mini']);
+    expect(await listPids({Mini: false, Standard: true})).toEqual(['standard', 'sunday', 'variety']);
+    expect(await listPids({Mini: false, Standard: false, Sunday: true, Variety: false})).toEqual(['sunday']);
+    expect(await listPids({Mini: true, Standard: false, Sunday: false, Variety: true})).toEqual([
+      'mini',
+      'variety',
+    ]);
+  });
+});
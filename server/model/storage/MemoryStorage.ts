@@ -0,0 +1,549 @@
+import _ from 'lodash';
+import moment from 'moment';
+import type {RoomEvent} from '@shared/roomEvents';
+import type {
+  GameSnapshotReducer,
+  ListPuzzleRequestFilters,
+  PuzzleJson,
+  PuzzleSearchField,
+  PuzzleSort,
+} from '@shared/types';
+import type {GameEvent} from '../game';
+import type {GameSnapshot} from '../game_snapshot';
+import type {RawFetchedPuzzleSolve} from '../puzzle_solve';
+import type {
+  Counter,
+  ListedPuzzle,
+  ListedPuzzlesPage,
+  ListPuzzlesCursor,
+  OwnedPuzzle,
+  Storage,
+  StoredCollection,
+  StoredUser,
+  TagCount,
+  UserGame,
+} from './Storage';
+
+// ================ In-memory storage, for running the server without postgres ========== //
+
+// the same start as the sequences in migrations/0001_baseline.sql
+const COUNTER_START = 100000000;
+
+interface PuzzleRow {
+  uid: string | null;
+  pid: string;
+  pidNumeric: number | null;
+  isPublic: boolean;
+  uploadedAt: number;
+  timesSolved: number;
+  averageSolveTime: number | null;
+  tags: string[];
+  content: PuzzleJson;
+  fingerprint: string;
+}
+
+interface PuzzleSolveRow {
+  pid: string;
+  gid: string;
+  solvedTime: number;
+  timeToSolve: number;
+}
+
+// round-trips values through JSON like the json columns do, so that callers can't mutate what is stored
+const toJson = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+const toListedPuzzle = (puzzle: PuzzleRow): ListedPuzzle => ({
+  pid: puzzle.pid,
+  content: toJson(puzzle.content),
+  times_solved: puzzle.timesSolved,
+  tags: [...puzzle.tags],
+});
+
+// the lowercased text that searchField is matched against; the clues stand in for their full-text index
+const getSearchText = (content: PuzzleJson, searchField: PuzzleSearchField = 'titleOrAuthor') => {
+  const {title, author} = content.info;
+  const texts = {
+    titleOrAuthor: () => `${title} ${author}`,
+    title: () => `${title}`,
+    author: () => `${author}`,
+    clues: () => _.compact([...(content.clues.across ?? []), ...(content.clues.down ?? [])]).join(' '),
+  };
+  return texts[searchField]().toLowerCase();
+};
+
+// the size bucket of a puzzle, see ListPuzzleRequestFilters
+const getSizeBucket = ({grid}: PuzzleJson) => {
+  const numRows = grid.length;
+  const numCols = grid[0]?.length ?? 0;
+  const isBetween = (min: number, max: number) => _.every([numRows, numCols], (n) => n >= min && n <= max);
+  if (numRows <= 10 && numCols <= 10) {
+    return 'Mini';
+  }
+  if (isBetween(11, 16)) {
+    return 'Standard';
+  }
+  if (isBetween(17, 25)) {
+    return 'Sunday';
+  }
+  return 'Variety';
+};
+
+const mapSizeFilter = (sizeFilter: ListPuzzleRequestFilters['sizeFilter']): string[] =>
+  _.compact([
+    sizeFilter.Mini && 'Mini',
+    sizeFilter.Standard && 'Standard',
+    (sizeFilter.Sunday ?? sizeFilter.Standard) && 'Sunday',
+    (sizeFilter.Variety ?? sizeFilter.Standard) && 'Variety',
+  ]);
+
+// a sort key of listPuzzles, with the NULL placement of postgres: first in desc order and last in asc order
+type SortKey = [(puzzle: PuzzleRow) => ListPuzzlesCursor[number], 'asc' | 'desc'];
+
+const PID_SORT_KEYS: SortKey[] = [
+  [(puzzle) => puzzle.pidNumeric, 'desc'],
+  [(puzzle) => puzzle.pid, 'desc'],
+];
+
+const SORT_KEYS: Record<PuzzleSort, SortKey[]> = {
+  newest: PID_SORT_KEYS,
+  mostSolved: [[(puzzle) => puzzle.timesSolved, 'desc'], ...PID_SORT_KEYS],
+  averageSolveTime: [[(puzzle) => puzzle.averageSolveTime, 'asc'], ...PID_SORT_KEYS],
+};
+
+// negative if a comes before b in the order of keys
+const compareCursors = (keys: SortKey[], a: ListPuzzlesCursor, b: ListPuzzlesCursor) => {
+  for (let i = 0; i < keys.length; i += 1) {
+    const [x, y] = [a[i] ?? null, b[i] ?? null];
+    if (x !== y) {
+      const isDesc = keys[i][1] === 'desc';
+      if (x === null || y === null) {
+        return (x === null) === isDesc ? -1 : 1;
+      }
+      return x < y === isDesc ? 1 : -1;
+    }
+  }
+  return 0;
+};
+
+/**
+ * Keeps everything in memory; all data is lost when the process exits.
+ * Mirrors the semantics of PostgresStorage, e.g. the per-gid sequence numbers and the ILIKE title filter.
+ */
+class MemoryStorage implements Storage {
+  private gameEvents = new Map<string, GameEvent[]>();
+
+  private gameSnapshots = new Map<string, GameSnapshot>();
+
+  private roomEvents = new Map<string, RoomEvent[]>();
+
+  private puzzles = new Map<string, PuzzleRow>();
+
+  private puzzleSolves: PuzzleSolveRow[] = [];
+
+  private counters: Record<Counter, number> = {gid: COUNTER_START - 1, pid: COUNTER_START - 1};
+
+  private users = new Map<string, StoredUser>();
+
+  private userSessions = new Map<string, {uid: string; expiresAt: number}>();
+
+  // kept in the order they were linked
+  private localIds = new Map<string, string>();
+
+  // the local id of each token hash
+  private localIdTokens = new Map<string, string>();
+
+  private userGames: UserGame[] = [];
+
+  private collections = new Map<string, StoredCollection>();
+
+  async ping() {
+    // always reachable
+  }
+
+  private getEventsOfGame(gid: string) {
+    return this.gameEvents.get(gid) ?? [];
+  }
+
+  async getGameEvents(gid: string) {
+    return toJson(this.getEventsOfGame(gid));
+  }
+
+  async getGameEventsAfter(gid: string, seq: number) {
+    return toJson(this.getEventsOfGame(gid).filter((event) => event.seq! > seq));
+  }
+
+  async getGameEventsSinceTimestamp(gid: string, timestamp: number) {
+    return toJson(this.getEventsOfGame(gid).filter((event) => event.timestamp >= timestamp));
+  }
+
+  async getGameCreateEvent(gid: string) {
+    const event = _.find(this.getEventsOfGame(gid), {type: 'create'});
+    return event && toJson(event);
+  }
+
+  async getGameEventById(gid: string, id: string) {
+    const event = _.find(this.getEventsOfGame(gid), {id});
+    return event && toJson(event);
+  }
+
+  async addGameEvent(gid: string, event: GameEvent) {
+    const events = this.getEventsOfGame(gid);
+    if (event.id !== undefined && _.some(events, {id: event.id})) {
+      return undefined;
+    }
+    const seq = (_.last(events)?.seq ?? 0) + 1;
+    this.gameEvents.set(gid, [...events, {...toJson(event), seq}]);
+    return seq;
+  }
+
+  async getUnsolvedGamesOfPuzzle(pid: string) {
+    return Array.from(this.gameEvents.entries())
+      .filter(([gid, events]) => {
+        const createEvent = _.find(events, {type: 'create'});
+        // NOTE: older games were created with numeric pids
+        return !!createEvent && String(createEvent.params.pid) === pid && !_.some(this.puzzleSolves, {gid});
+      })
+      .map(([gid]) => gid);
+  }
+
+  async getGameSnapshot(gid: string, reducer: GameSnapshotReducer) {
+    const snapshot = this.gameSnapshots.get(`${gid}/${reducer}`);
+    return snapshot && toJson(snapshot);
+  }
+
+  async saveGameSnapshot(gid: string, snapshot: GameSnapshot) {
+    const key = `${gid}/${snapshot.reducer}`;
+    const current = this.gameSnapshots.get(key);
+    if (current && current.lastEventSeq >= snapshot.lastEventSeq) {
+      return;
+    }
+    this.gameSnapshots.set(key, toJson(snapshot));
+  }
+
+  async getRoomEvents(rid: string) {
+    return toJson(this.roomEvents.get(rid) ?? []);
+  }
+
+  async addRoomEvent(rid: string, event: RoomEvent) {
+    const events = this.roomEvents.get(rid) ?? [];
+    const seq = (_.last(events)?.seq ?? 0) + 1;
+    this.roomEvents.set(rid, [...events, {...toJson(event), seq}]);
+    return seq;
+  }
+
+  async getPuzzle(pid: string) {
+    const puzzle = this.puzzles.get(pid);
+    return puzzle && toJson(puzzle.content);
+  }
+
+  async listPuzzles(
+    filter: ListPuzzleRequestFilters,
+    limit: number,
+    offset: number,
+    after?: ListPuzzlesCursor
+  ): Promise<ListedPuzzlesPage> {
+    const sizes = mapSizeFilter(filter.sizeFilter);
+    const search = filter.nameOrTitleFilter.trim().toLowerCase();
+    const words = filter.nameOrTitleFilter.toLowerCase().split(/\s/);
+    const getSearchedText = (puzzle: PuzzleRow) => getSearchText(puzzle.content, filter.searchField);
+    const matches = (puzzle: PuzzleRow) => {
+      const text = getSearchedText(puzzle);
+      return (
+        puzzle.isPublic &&
+        sizes.includes(getSizeBucket(puzzle.content)) &&
+        _.every(filter.tags, (tag) => puzzle.tags.includes(tag)) &&
+        _.every(words, (word) => text.includes(word))
+      );
+    };
+    // stands in for ts_rank and the trigram similarity: how densely the searched words occur in the text
+    const rank = (puzzle: PuzzleRow) => {
+      const text = getSearchedText(puzzle);
+      return _.sumBy(words, (word) => text.split(word).length - 1) / Math.max(1, text.length);
+    };
+    // the most relevant first when searching, unless another order was picked
+    const sortKeys: SortKey[] =
+      search && !filter.sort ? [[rank, 'desc'], ...PID_SORT_KEYS] : SORT_KEYS[filter.sort ?? 'newest'];
+    const rows = Array.from(this.puzzles.values())
+      .filter(matches)
+      .map((puzzle) => ({puzzle, cursor: sortKeys.map(([getKey]) => getKey(puzzle))}))
+      .filter(({cursor}) => !after || compareCursors(sortKeys, cursor, after) > 0)
+      .sort((a, b) => compareCursors(sortKeys, a.cursor, b.cursor))
+      .slice(offset, offset + limit);
+    return {
+      puzzles: rows.map(({puzzle}) => toListedPuzzle(puzzle)),
+      cursor: rows.length === limit ? _.last(rows)!.cursor : null,
+    };
+  }
+
+  async addPuzzle(pid: string, puzzle: PuzzleJson, isPublic: boolean, fingerprint: string, uid?: string) {
+    if (this.puzzles.has(pid)) {
+      throw new Error(`duplicate key value violates unique constraint: pid ${pid} already exists`);
+    }
+    const pidNumeric = Number(pid);
+    this.puzzles.set(pid, {
+      uid: uid ?? null,
+      pid,
+      pidNumeric: Number.isFinite(pidNumeric) ? pidNumeric : null,
+      isPublic,
+      uploadedAt: Date.now(),
+      timesSolved: 0,
+      averageSolveTime: null,
+      tags: [],
+      content: toJson(puzzle),
+      fingerprint,
+    });
+  }
+
+  async getPublicPuzzleByFingerprint(fingerprint: string) {
+    const puzzles = _.filter(Array.from(this.puzzles.values()), {fingerprint, isPublic: true});
+    return _.maxBy(puzzles, 'timesSolved')?.pid;
+  }
+
+  async getPuzzleUid(pid: string) {
+    return this.puzzles.get(pid)?.uid;
+  }
+
+  async updatePuzzle(
+    pid: string,
+    update: {content?: PuzzleJson; fingerprint?: string; isPublic?: boolean; tags?: string[]}
+  ) {
+    const puzzle = this.puzzles.get(pid);
+    if (!puzzle) {
+      return;
+    }
+    if (update.content) {
+      puzzle.content = toJson(update.content);
+    }
+    if (update.fingerprint) {
+      puzzle.fingerprint = update.fingerprint;
+    }
+    if (update.isPublic !== undefined) {
+      puzzle.isPublic = update.isPublic;
+    }
+    if (update.tags) {
+      puzzle.tags = [...update.tags];
+    }
+  }
+
+  async deletePuzzle(pid: string) {
+    this.puzzles.delete(pid);
+    // ON DELETE CASCADE
+    this.puzzleSolves = this.puzzleSolves.filter((solve) => solve.pid !== pid);
+    this.collections.forEach((collection) => {
+      collection.pids = collection.pids.filter((p) => p !== pid);
+    });
+  }
+
+  async listUserPuzzles(uid: string): Promise<OwnedPuzzle[]> {
+    return _.orderBy(
+      Array.from(this.puzzles.values()).filter((puzzle) => puzzle.uid === uid),
+      'uploadedAt',
+      'desc'
+    ).map((puzzle) => ({
+      ...toListedPuzzle(puzzle),
+      is_public: puzzle.isPublic,
+      uploaded_at: puzzle.uploadedAt,
+    }));
+  }
+
+  async getPublicPuzzles(pids: string[]) {
+    return Array.from(this.puzzles.values())
+      .filter((puzzle) => puzzle.isPublic && pids.includes(puzzle.pid))
+      .map(toListedPuzzle);
+  }
+
+  async listPopularTags(limit: number): Promise<TagCount[]> {
+    const counts = _.countBy(
+      _.flatMap(
+        Array.from(this.puzzles.values()).filter((puzzle) => puzzle.isPublic),
+        (puzzle) => puzzle.tags
+      )
+    );
+    return _.orderBy(
+      _.map(counts, (count, tag) => ({tag, count})),
+      ['count', 'tag'],
+      ['desc', 'asc']
+    ).slice(0, limit);
+  }
+
+  // ======== Collections ========= //
+
+  async addCollection(collection: Omit<StoredCollection, 'createdAt'>) {
+    if (this.collections.has(collection.collectionId)) {
+      throw new Error(
+        `duplicate key value violates unique constraint: ${collection.collectionId} already exists`
+      );
+    }
+    this.collections.set(collection.collectionId, {...toJson(collection), createdAt: Date.now()});
+  }
+
+  async getCollection(collectionId: string) {
+    const collection = this.collections.get(collectionId);
+    return collection && toJson(collection);
+  }
+
+  async listCollections(limit: number) {
+    return _.orderBy(Array.from(this.collections.values()), 'createdAt', 'desc').slice(0, limit).map(toJson);
+  }
+
+  async updateCollection(collectionId: string, update: {name?: string; pids?: string[]}) {
+    const collection = this.collections.get(collectionId);
+    if (!collection) {
+      return;
+    }
+    if (update.name !== undefined) {
+      collection.name = update.name;
+    }
+    if (update.pids) {
+      collection.pids = [...update.pids];
+    }
+  }
+
+  async deleteCollection(collectionId: string) {
+    this.collections.delete(collectionId);
+  }
+
+  async isGidAlreadySolved(gid: string) {
+    return _.some(this.puzzleSolves, {gid});
+  }
+
+  async addPuzzleSolve(pid: string, gid: string, timeToSolve: number) {
+    const puzzle = this.puzzles.get(pid);
+    if (!puzzle || _.some(this.puzzleSolves, {pid, gid})) {
+      return; // the insert would have failed, so the transaction is rolled back
+    }
+    this.puzzleSolves.push({pid, gid, solvedTime: Date.now(), timeToSolve});
+    puzzle.timesSolved += 1;
+    puzzle.averageSolveTime = _.meanBy(_.filter(this.puzzleSolves, {pid}), 'timeToSolve');
+  }
+
+  async getPuzzleSolves(gids: string[]): Promise<RawFetchedPuzzleSolve[]> {
+    return _.flatMap(
+      this.puzzleSolves.filter((solve) => gids.includes(solve.gid) && this.puzzles.has(solve.pid)),
+      (solve) => {
+        const row = {
+          pid: solve.pid,
+          gid: solve.gid,
+          content: toJson(this.puzzles.get(solve.pid)!.content),
+          solved_time: moment(solve.solvedTime),
+          time_taken_to_solve: solve.timeToSolve,
+        };
+        const events = this.getEventsOfGame(solve.gid).filter((event) =>
+          ['check', 'reveal'].includes(event.type)
+        );
+        if (events.length === 0) {
+          return [row];
+        }
+        return events.map((event) => ({
+          ...row,
+          event_type: event.type,
+          event_payload: toJson(event),
+        }));
+      }
+    );
+  }
+
+  async incrementCounter(counter: Counter) {
+    this.counters[counter] += 1;
+    return String(this.counters[counter]);
+  }
+
+  async addUser(user: StoredUser) {
+    if (await this.getUserByUsername(user.username)) {
+      return false;
+    }
+    this.users.set(user.uid, {...user});
+    return true;
+  }
+
+  async getUser(uid: string) {
+    const user = this.users.get(uid);
+    return user && {...user};
+  }
+
+  async getUserByUsername(username: string) {
+    const user = _.find(
+      Array.from(this.users.values()),
+      (candidate) => candidate.username.toLowerCase() === username.toLowerCase()
+    );
+    return user && {...user};
+  }
+
+  async addUserSession(tokenHash: string, uid: string, expiresAt: number) {
+    this.userSessions.set(tokenHash, {uid, expiresAt});
+  }
+
+  async getUserSession(tokenHash: string) {
+    const session = this.userSessions.get(tokenHash);
+    if (!session || session.expiresAt <= Date.now()) {
+      return undefined;
+    }
+    return session.uid;
+  }
+
+  async deleteUserSession(tokenHash: string) {
+    this.userSessions.delete(tokenHash);
+  }
+
+  async linkLocalId(uid: string, localId: string) {
+    if (!this.localIds.has(localId)) {
+      this.localIds.set(localId, uid);
+    }
+    return this.localIds.get(localId)!;
+  }
+
+  async getLocalIds(uid: string) {
+    return Array.from(this.localIds.entries())
+      .filter(([, linkedUid]) => linkedUid === uid)
+      .map(([localId]) => localId);
+  }
+
+  async getLocalIdUid(localId: string) {
+    return this.localIds.get(localId);
+  }
+
+  async claimLocalId(localId: string, tokenHash: string) {
+    if (Array.from(this.localIdTokens.values()).includes(localId)) {
+      return false;
+    }
+    this.localIdTokens.set(tokenHash, localId);
+    return true;
+  }
+
+  async addLocalIdToken(localId: string, tokenHash: string) {
+    this.localIdTokens.set(tokenHash, localId);
+  }
+
+  async hasLocalIdToken(localId: string, tokenHash: string) {
+    return this.localIdTokens.get(tokenHash) === localId;
+  }
+
+  async hasGameEventsOfLocalId(localId: string) {
+    return Array.from(this.gameEvents.values()).some((events) => _.some(events, ['params.id', localId]));
+  }
+
+  async addUserGame(game: Omit<UserGame, 'joinedAt'> & {joinedAt?: number}) {
+    if (_.some(this.userGames, {uid: game.uid, gid: game.gid})) {
+      return;
+    }
+    this.userGames.push({...game, joinedAt: game.joinedAt ?? Date.now()});
+  }
+
+  async markUserGamesSolved(gid: string) {
+    this.userGames
+      .filter((game) => game.gid === gid)
+      .forEach((game) => {
+        game.solved = true;
+      });
+  }
+
+  async getUserGames(uids: string[]) {
+    return _.orderBy(
+      this.userGames.filter((game) => uids.includes(game.uid)),
+      'joinedAt',
+      'desc'
+    ).map((game) => ({...game}));
+  }
+}
+
+export default MemoryStorage;
@@ -0,0 +1,851 @@
+import _ from 'lodash';
+import type {RoomEvent} from '@shared/roomEvents';
+import type {
+  GameSnapshotReducer,
+  ListPuzzleRequestFilters,
+  PuzzleJson,
+  PuzzleSearchField,
+  PuzzleSort,
+} from '@shared/types';
+import type {PoolClient} from 'pg';
+import {pool} from '../pool';
+import type {GameEvent} from '../game';
+import type {GameSnapshot} from '../game_snapshot';
+import type {RawFetchedPuzzleSolve} from '../puzzle_solve';
+import type {
+  Counter,
+  ListedPuzzle,
+  ListedPuzzlesPage,
+  ListPuzzlesCursor,
+  OwnedPuzzle,
+  Storage,
+  StoredCollection,
+  StoredUser,
+  TagCount,
+  UserGame,
+} from './Storage';
+
+// ================ Read and Write methods used to interface with postgres ========== //
+
+// the seq column is the source of truth for ordering; it is attached to the payload sent to clients
+// NOTE: bigint returns as string in pg
+const toGameEvent = (row: {event_payload: GameEvent; seq: string}): GameEvent => ({
+  ...row.event_payload,
+  seq: Number(row.seq),
+});
+
+const toStoredUser = (row: {uid: string; username: string; password_hash: string}): StoredUser => ({
+  uid: row.uid,
+  username: row.username,
+  passwordHash: row.password_hash,
+});
+
+const toStoredCollection = (row: {
+  collection_id: string;
+  uid: string;
+  name: string;
+  pids: string[];
+  created_at: Date;
+}): StoredCollection => ({
+  collectionId: row.collection_id,
+  uid: row.uid,
+  name: row.name,
+  pids: row.pids,
+  createdAt: row.created_at.getTime(),
+});
+
+// the pids of each collection, in order
+const SELECT_COLLECTIONS = `
+  SELECT c.collection_id, c.uid, c.name, c.created_at,
+    COALESCE(array_agg(cp.pid ORDER BY cp.position) FILTER (WHERE cp.pid IS NOT NULL), '{}') AS pids
+  FROM collections c
+  LEFT JOIN collection_puzzles cp ON cp.collection_id = c.collection_id
+`;
+
+// what each searchField of ListPuzzleRequestFilters is matched against; these are the expressions of the
+// trigram indexes (titleOrAuthor is puzzle_name_and_title_trigrams)
+const SEARCH_COLUMNS: Record<Exclude<PuzzleSearchField, 'clues'>, string> = {
+  titleOrAuthor: `((content -> 'info' ->> 'title') || ' ' || (content->'info'->>'author'))`,
+  title: `(content -> 'info' ->> 'title')`,
+  author: `(content -> 'info' ->> 'author')`,
+};
+
+// the expression of the puzzles_clues_fts_idx index
+const CLUES_TSVECTOR = `to_tsvector('english', content -> 'clues')`;
+
+// the size bucket of a puzzle, see ListPuzzleRequestFilters
+const SIZE_BUCKET = `
+  CASE
+    WHEN num_rows <= 10 AND num_cols <= 10 THEN 'Mini'
+    WHEN num_rows BETWEEN 11 AND 16 AND num_cols BETWEEN 11 AND 16 THEN 'Standard'
+    WHEN num_rows BETWEEN 17 AND 25 AND num_cols BETWEEN 17 AND 25 THEN 'Sunday'
+    ELSE 'Variety'
+  END
+`;
+
+const mapSizeFilterForDB = (sizeFilter: ListPuzzleRequestFilters['sizeFilter']): string[] => {
+  const ret = [];
+  if (sizeFilter.Mini) {
+    ret.push('Mini');
+  }
+  if (sizeFilter.Standard) {
+    ret.push('Standard');
+  }
+  if (sizeFilter.Sunday ?? sizeFilter.Standard) {
+    ret.push('Sunday');
+  }
+  if (sizeFilter.Variety ?? sizeFilter.Standard) {
+    ret.push('Variety');
+  }
+  return ret;
+};
+
+// NULLs come first in DESC order and last in ASC order, the defaults
+interface SortKey {
+  expression: string;
+  order: 'ASC' | 'DESC';
+}
+
+// the pid breaks ties, so that every puzzle has its own position for the cursors of listPuzzles
+const PID_SORT_KEYS: SortKey[] = [
+  {expression: 'pid_numeric', order: 'DESC'},
+  {expression: 'pid', order: 'DESC'},
+];
+
+const SORT_KEYS: Record<PuzzleSort, SortKey[]> = {
+  newest: PID_SORT_KEYS,
+  mostSolved: [{expression: 'times_solved', order: 'DESC'}, ...PID_SORT_KEYS],
+  averageSolveTime: [{expression: 'average_solve_time', order: 'ASC'}, ...PID_SORT_KEYS],
+};
+
+// the rows after the cursor in the order of keys.
+// unlike a row comparison such as (a, b) < ($1, $2), this allows for mixed orders and NULLs
+const getKeysetFilter = (
+  keys: SortKey[],
+  cursor: ListPuzzlesCursor,
+  addParameter: (value: unknown) => string
+) => {
+  const isEqual = ({expression}: SortKey, value: ListPuzzlesCursor[number]) =>
+    value === null ? `${expression} IS NULL` : `${expression} = ${addParameter(value)}`;
+  const isAfter = ({expression, order}: SortKey, value: ListPuzzlesCursor[number]) => {
+    if (value === null) {
+      return order === 'DESC' ? `${expression} IS NOT NULL` : 'FALSE';
+    }
+    return order === 'DESC'
+      ? `${expression} < ${addParameter(value)}`
+      : `(${expression} > ${addParameter(value)} OR ${expression} IS NULL)`;
+  };
+  const clauses = keys.map((key, i) =>
+    [
+      ...keys.slice(0, i).map((previousKey, j) => isEqual(previousKey, cursor[j] ?? null)),
+      isAfter(key, cursor[i] ?? null),
+    ].join(' AND ')
+  );
+  return `AND (${clauses.map((clause) => `(${clause})`).join(' OR ')})`;
+};
+
+class PostgresStorage implements Storage {
+  async ping() {
+    await pool.query('SELECT 1');
+  }
+
+  async getGameEvents(gid: string) {
+    const res = await pool.query('SELECT event_payload, seq FROM game_events WHERE gid=$1 ORDER BY seq ASC', [
+      gid,
+    ]);
+    const events = res.rows.map(toGameEvent);
+    return events;
+  }
+
+  async getGameEventsAfter(gid: string, seq: number) {
+    const res = await pool.query(
+      'SELECT event_payload, seq FROM game_events WHERE gid=$1 AND seq > $2 ORDER BY seq ASC',
+      [gid, seq]
+    );
+    const events = res.rows.map(toGameEvent);
+    return events;
+  }
+
+  async getGameEventsSinceTimestamp(gid: string, timestamp: number) {
+    const res = await pool.query(
+      'SELECT event_payload, seq FROM game_events WHERE gid=$1 AND ts >= $2 ORDER BY seq ASC',
+      [gid, new Date(timestamp).toISOString()]
+    );
+    const events = res.rows.map(toGameEvent);
+    return events;
+  }
+
+  async getGameCreateEvent(gid: string) {
+    const res = await pool.query(
+      "SELECT event_payload, seq FROM game_events WHERE gid=$1 AND event_type='create'",
+      [gid]
+    );
+    if (res.rowCount !== 1) {
+      return undefined;
+    }
+    return toGameEvent(res.rows[0]);
+  }
+
+  async getGameEventById(gid: string, id: string) {
+    const res = await pool.query('SELECT event_payload, seq FROM game_events WHERE gid=$1 AND event_id=$2', [
+      gid,
+      id,
+    ]);
+    const row = _.first(res.rows);
+    return row && toGameEvent(row);
+  }
+
+  // The upsert on game_event_seqs locks the counter row, so concurrent writers to one gid are serialized.
+  // A duplicate event is not inserted, but the seq drawn for it is skipped.
+  async addGameEvent(gid: string, event: GameEvent) {
+    const {rows} = await pool.query(
+      `
+        WITH next_seq AS (
+          INSERT INTO game_event_seqs (gid, seq)
+          VALUES ($1, 1)
+          ON CONFLICT (gid) DO UPDATE SET seq = game_event_seqs.seq + 1
+          RETURNING seq
+        )
+        INSERT INTO game_events (gid, uid, ts, event_type, event_payload, seq, event_id)
+        SELECT $1, $2, $3, $4, $5, seq, $6 FROM next_seq
+        ON CONFLICT (gid, event_id) DO NOTHING
+        RETURNING seq`,
+      [gid, event.user, new Date(event.timestamp).toISOString(), event.type, event, event.id]
+    );
+    const row = _.first(rows);
+    return row && Number(row.seq);
+  }
+
+  async getUnsolvedGamesOfPuzzle(pid: string) {
+    // uses game_events_create_pid_idx
+    const {rows} = await pool.query(
+      `
+        SELECT ge.gid
+        FROM game_events ge
+        WHERE ge.event_type = 'create'
+          AND ge.event_payload->'params'->>'pid' = $1
+          AND NOT EXISTS (SELECT 1 FROM puzzle_solves ps WHERE ps.gid = ge.gid)
+      `,
+      [pid]
+    );
+    return rows.map((row: {gid: string}) => row.gid);
+  }
+
+  async getGameSnapshot(gid: string, reducer: GameSnapshotReducer) {
+    const {rows} = await pool.query(
+      `
+        SELECT last_event_seq, last_event_timestamp, snapshot
+        FROM game_snapshots
+        WHERE gid = $1 AND reducer = $2
+      `,
+      [gid, reducer]
+    );
+    const row = _.first(rows);
+    if (!row) {
+      return undefined;
+    }
+    return {
+      reducer,
+      // NOTE: bigint returns as string in pg
+      lastEventSeq: Number(row.last_event_seq),
+      lastEventTimestamp: Number(row.last_event_timestamp),
+      state: row.snapshot,
+    };
+  }
+
+  async saveGameSnapshot(gid: string, snapshot: GameSnapshot) {
+    await pool.query(
+      `
+        INSERT INTO game_snapshots (gid, reducer, last_event_seq, last_event_timestamp, created_at, snapshot)
+        VALUES ($1, $2, $3, $4, to_timestamp($5), $6)
+        ON CONFLICT (gid, reducer) DO UPDATE
+        SET last_event_seq = EXCLUDED.last_event_seq,
+            last_event_timestamp = EXCLUDED.last_event_timestamp,
+            created_at = EXCLUDED.created_at,
+            snapshot = EXCLUDED.snapshot
+        WHERE game_snapshots.last_event_seq < EXCLUDED.last_event_seq
+      `,
+      [
+        gid,
+        snapshot.reducer,
+        snapshot.lastEventSeq,
+        snapshot.lastEventTimestamp,
+        Date.now() / 1000,
+        JSON.stringify(snapshot.state),
+      ]
+    );
+  }
+
+  async getRoomEvents(rid: string) {
+    const res = await pool.query('SELECT event_payload, seq FROM room_events WHERE rid=$1 ORDER BY seq ASC', [
+      rid,
+    ]);
+    // NOTE: bigint returns as string in pg
+    const events = res.rows.map((row: {event_payload: RoomEvent; seq: string}) => ({
+      ...row.event_payload,
+      seq: Number(row.seq),
+    }));
+    return events;
+  }
+
+  async addRoomEvent(rid: string, event: RoomEvent) {
+    const {rows} = await pool.query(
+      `
+        WITH next_seq AS (
+          INSERT INTO room_event_seqs (rid, seq)
+          VALUES ($1, 1)
+          ON CONFLICT (rid) DO UPDATE SET seq = room_event_seqs.seq + 1
+          RETURNING seq
+        )
+        INSERT INTO room_events (rid, uid, ts, event_type, event_payload, seq)
+        SELECT $1, $2, $3, $4, $5, seq FROM next_seq
+        RETURNING seq`,
+      [rid, event.uid, new Date(event.timestamp).toISOString(), event.type, event]
+    );
+    return Number(_.first(rows)!.seq);
+  }
+
+  async getPuzzle(pid: string) {
+    const {rows} = await pool.query(
+      `
+        SELECT content
+        FROM puzzles
+        WHERE pid = $1
+      `,
+      [pid]
+    );
+    return _.first(rows)?.content as PuzzleJson | undefined;
+  }
+
+  async listPuzzles(
+    filter: ListPuzzleRequestFilters,
+    limit: number,
+    offset: number,
+    after?: ListPuzzlesCursor
+  ): Promise<ListedPuzzlesPage> {
+    const searchField = filter.searchField ?? 'titleOrAuthor';
+    const search = filter.nameOrTitleFilter.trim();
+    const parameters: unknown[] = [mapSizeFilterForDB(filter.sizeFilter), limit, offset, filter.tags ?? []];
+    // returns the placeholder ($#) of value.
+    // note this is not vulnerable to SQL injection because the query only ever contains these placeholders,
+    // which we fully control.
+    const addParameter = (value: unknown) => {
+      parameters.push(value);
+      return `$${parameters.length}`;
+    };
+    let searchFilter = '';
+    let rank = '';
+    if (searchField === 'clues') {
+      if (search) {
+        // websearch_to_tsquery accepts anything users type, e.g. "ada lovelace" in quotes or -excluded words
+        const query = `websearch_to_tsquery('english', ${addParameter(search)})`;
+        searchFilter = `AND ${CLUES_TSVECTOR} @@ ${query}`;
+        rank = `ts_rank(${CLUES_TSVECTOR}, ${query})`;
+      }
+    } else {
+      const column = SEARCH_COLUMNS[searchField];
+      // see https://github.com/brianc/node-postgres/wiki/FAQ#11-how-do-i-build-a-where-foo-in--query-to-find-rows-matching-an-array-of-values
+      // for why this is okay.
+      // we create the query this way as POSTGRES optimizer does not use the index for an ILIKE ALL cause, but will for multiple ands
+      searchFilter = filter.nameOrTitleFilter
+        .split(/\s/)
+        .map((word) => `AND ${column} ILIKE ${addParameter(`%${word}%`)}`)
+        .join('\n');
+      if (search) {
+        rank = `similarity(${column}, ${addParameter(search)})`;
+      }
+    }
+    // the most relevant first when searching, unless another order was picked
+    const sortKeys: SortKey[] =
+      rank && !filter.sort
+        ? [{expression: rank, order: 'DESC'}, ...PID_SORT_KEYS]
+        : SORT_KEYS[filter.sort ?? 'newest'];
+    const keysetFilter = after ? getKeysetFilter(sortKeys, after, addParameter) : '';
+    const {rows} = await pool.query(
+      `
+        SELECT pid, uploaded_at, content, times_solved, tags,
+          json_build_array(${_.map(sortKeys, 'expression').join(', ')}) AS cursor
+        FROM puzzles
+        WHERE is_public = true
+        AND ${SIZE_BUCKET} = ANY($1)
+        AND tags @> $4
+        ${searchFilter}
+        ${keysetFilter}
+        ORDER BY ${sortKeys.map(({expression, order}) => `${expression} ${order}`).join(', ')}
+        LIMIT $2
+        OFFSET $3
+      `,
+      parameters
+    );
+    const puzzles = rows.map(
+      (row: {
+        pid: string;
+        uploaded_at: string;
+        is_public: boolean;
+        content: PuzzleJson;
+        times_solved: string;
+        tags: string[];
+        // NOTE: numeric returns as string in pg-promise
+        // See https://stackoverflow.com/questions/39168501/pg-promise-returns-integers-as-strings
+      }) => ({
+        pid: row.pid,
+        content: row.content,
+        times_solved: Number(row.times_solved),
+        tags: row.tags,
+      })
+    );
+    return {
+      puzzles,
+      cursor: rows.length === limit ? (_.last(rows).cursor as ListPuzzlesCursor) : null,
+    };
+  }
+
+  async addPuzzle(pid: string, puzzle: PuzzleJson, isPublic: boolean, fingerprint: string, uid?: string) {
+    const uploaded_at = Date.now();
+    await pool.query(
+      `
+        INSERT INTO puzzles (pid, uploaded_at, is_public, content, pid_numeric, uid, fingerprint)
+        VALUES ($1, to_timestamp($2), $3, $4, $5, $6, $7)`,
+      [pid, uploaded_at / 1000, isPublic, puzzle, pid, uid ?? null, fingerprint]
+    );
+  }
+
+  async getPublicPuzzleByFingerprint(fingerprint: string) {
+    const {rows} = await pool.query(
+      `
+        SELECT pid
+        FROM puzzles
+        WHERE fingerprint = $1 AND is_public = true
+        ORDER BY times_solved DESC
+        LIMIT 1
+      `,
+      [fingerprint]
+    );
+    return _.first(rows)?.pid as string | undefined;
+  }
+
+  async getPuzzleUid(pid: string) {
+    const {rows} = await pool.query('SELECT uid FROM puzzles WHERE pid = $1', [pid]);
+    return rows.length > 0 ? (rows[0].uid as string | null) : undefined;
+  }
+
+  async updatePuzzle(
+    pid: string,
+    update: {content?: PuzzleJson; fingerprint?: string; isPublic?: boolean; tags?: string[]}
+  ) {
+    // COALESCE keeps the current value of the columns that aren't updated
+    await pool.query(
+      `
+        UPDATE puzzles
+        SET content = COALESCE($2, content), is_public = COALESCE($3, is_public), tags = COALESCE($4, tags),
+          fingerprint = COALESCE($5, fingerprint)
+        WHERE pid = $1
+      `,
+      [pid, update.content ?? null, update.isPublic ?? null, update.tags ?? null, update.fingerprint ?? null]
+    );
+  }
+
+  async deletePuzzle(pid: string) {
+    await pool.query('DELETE FROM puzzles WHERE pid = $1', [pid]);
+  }
+
+  async listUserPuzzles(uid: string): Promise<OwnedPuzzle[]> {
+    const {rows} = await pool.query(
+      `
+        SELECT pid, content, times_solved, tags, is_public, uploaded_at
+        FROM puzzles
+        WHERE uid = $1
+        ORDER BY uploaded_at DESC
+      `,
+      [uid]
+    );
+    return rows.map(
+      (row: {
+        pid: string;
+        content: PuzzleJson;
+        times_solved: string;
+        tags: string[];
+        is_public: boolean | null;
+        uploaded_at: Date | null;
+      }) => ({
+        pid: row.pid,
+        content: row.content,
+        // NOTE: numeric returns as string in pg
+        times_solved: Number(row.times_solved),
+        tags: row.tags,
+        is_public: !!row.is_public,
+        uploaded_at: row.uploaded_at ? row.uploaded_at.getTime() : 0,
+      })
+    );
+  }
+
+  async getPublicPuzzles(pids: string[]): Promise<ListedPuzzle[]> {
+    const {rows} = await pool.query(
+      `
+        SELECT pid, content, times_solved, tags
+        FROM puzzles
+        WHERE pid = ANY($1) AND is_public = true
+      `,
+      [pids]
+    );
+    return rows.map((row: {pid: string; content: PuzzleJson; times_solved: string; tags: string[]}) => ({
+      ...row,
+      // NOTE: numeric returns as string in pg
+      times_solved: Number(row.times_solved),
+    }));
+  }
+
+  async listPopularTags(limit: number): Promise<TagCount[]> {
+    const {rows} = await pool.query(
+      `
+        SELECT tag, COUNT(*) AS count
+        FROM puzzles, unnest(tags) AS tag
+        WHERE is_public = true
+        GROUP BY tag
+        ORDER BY count DESC, tag ASC
+        LIMIT $1
+      `,
+      [limit]
+    );
+    // NOTE: bigint returns as string in pg
+    return rows.map((row: {tag: string; count: string}) => ({tag: row.tag, count: Number(row.count)}));
+  }
+
+  // ======== Collections ========= //
+
+  // the pids are numbered in order, replacing the previous ones. Must run in a transaction
+  private async setCollectionPids(client: PoolClient, collectionId: string, pids: string[]) {
+    await client.query('DELETE FROM collection_puzzles WHERE collection_id = $1', [collectionId]);
+    await client.query(
+      `
+        INSERT INTO collection_puzzles (collection_id, pid, position)
+        SELECT $1, pid, position FROM unnest($2::text[]) WITH ORDINALITY AS p (pid, position)
+      `,
+      [collectionId, pids]
+    );
+  }
+
+  async addCollection(collection: Omit<StoredCollection, 'createdAt'>) {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query('INSERT INTO collections (collection_id, uid, name) VALUES ($1, $2, $3)', [
+        collection.collectionId,
+        collection.uid,
+        collection.name,
+      ]);
+      await this.setCollectionPids(client, collection.collectionId, collection.pids);
+      await client.query('COMMIT');
+    } catch (e) {
+      await client.query('ROLLBACK');
+      throw e;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getCollection(collectionId: string) {
+    const {rows} = await pool.query(
+      `${SELECT_COLLECTIONS}
+        WHERE c.collection_id = $1
+        GROUP BY c.collection_id
+      `,
+      [collectionId]
+    );
+    const row = _.first(rows);
+    return row && toStoredCollection(row);
+  }
+
+  async listCollections(limit: number) {
+    const {rows} = await pool.query(
+      `${SELECT_COLLECTIONS}
+        GROUP BY c.collection_id
+        ORDER BY c.created_at DESC
+        LIMIT $1
+      `,
+      [limit]
+    );
+    return rows.map(toStoredCollection);
+  }
+
+  async updateCollection(collectionId: string, update: {name?: string; pids?: string[]}) {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      if (update.name !== undefined) {
+        await client.query('UPDATE collections SET name = $2 WHERE collection_id = $1', [
+          collectionId,
+          update.name,
+        ]);
+      }
+      if (update.pids) {
+        await this.setCollectionPids(client, collectionId, update.pids);
+      }
+      await client.query('COMMIT');
+    } catch (e) {
+      await client.query('ROLLBACK');
+      throw e;
+    } finally {
+      client.release();
+    }
+  }
+
+  async deleteCollection(collectionId: string) {
+    await pool.query('DELETE FROM collections WHERE collection_id = $1', [collectionId]);
+  }
+
+  async isGidAlreadySolved(gid: string) {
+    // Note: This gate makes use of the assumption "one pid per gid";
+    // The unique index on (pid, gid) is more strict than this
+    const {
+      rows: [{count}],
+    } = await pool.query(
+      `
+      SELECT COUNT(*)
+      FROM puzzle_solves
+      WHERE gid=$1
+    `,
+      [gid]
+    );
+    return count > 0;
+  }
+
+  async addPuzzleSolve(pid: string, gid: string, timeToSolve: number) {
+    const solved_time = Date.now();
+    const client = await pool.connect();
+
+    // The frontend clients are designed in a way that concurrent double logs are fairly common
+    // we use a transaction here as it lets us only update if we are able to insert a solve (in case we double log a solve).
+
+    try {
+      await client.query('BEGIN');
+      await client.query(
+        `
+        INSERT INTO puzzle_solves (pid, gid, solved_time, time_taken_to_solve)
+        VALUES ($1, $2, to_timestamp($3), $4)
+      `,
+        [pid, gid, solved_time / 1000.0, timeToSolve]
+      );
+      await client.query(
+        `
+        UPDATE puzzles
+        SET times_solved = times_solved + 1,
+          average_solve_time = (SELECT AVG(time_taken_to_solve) FROM puzzle_solves WHERE pid = $1)
+        WHERE pid = $1
+      `,
+        [pid]
+      );
+      await client.query('COMMIT');
+    } catch (e) {
+      await client.query('ROLLBACK');
+    } finally {
+      client.release();
+    }
+  }
+
+  async getPuzzleSolves(gids: string[]) {
+    const {rows}: {rows: RawFetchedPuzzleSolve[]} = await pool.query(
+      `
+        SELECT
+          p.content,
+          ps.pid,
+          ps.gid,
+          ps.solved_time,
+          ps.time_taken_to_solve,
+          ge.event_type,
+          ge.event_payload
+        FROM puzzle_solves ps
+        JOIN puzzles p on ps.pid = p.pid
+        LEFT JOIN game_events ge
+          ON ps.gid = ge.gid AND ge.event_type IN ('check', 'reveal')
+        WHERE ps.gid = ANY($1)
+      `,
+      [gids]
+    );
+    return rows;
+  }
+
+  async incrementCounter(counter: Counter) {
+    // not vulnerable to SQL injection, as counter is one of the Counter literals
+    const {rows} = await pool.query(
+      `
+        SELECT nextval('${counter}_counter')
+      `
+    );
+    return _.first(rows)!.nextval as string;
+  }
+
+  async addUser(user: StoredUser) {
+    const {rowCount} = await pool.query(
+      `
+        INSERT INTO users (uid, username, password_hash)
+        VALUES ($1, $2, $3)
+        ON CONFLICT DO NOTHING
+      `,
+      [user.uid, user.username, user.passwordHash]
+    );
+    return rowCount > 0;
+  }
+
+  async getUser(uid: string) {
+    const {rows} = await pool.query('SELECT uid, username, password_hash FROM users WHERE uid = $1', [uid]);
+    return rows.map(toStoredUser)[0];
+  }
+
+  async getUserByUsername(username: string) {
+    const {
+      rows,
+    } = await pool.query('SELECT uid, username, password_hash FROM users WHERE lower(username) = lower($1)', [
+      username,
+    ]);
+    return rows.map(toStoredUser)[0];
+  }
+
+  async addUserSession(tokenHash: string, uid: string, expiresAt: number) {
+    await pool.query(
+      `
+        INSERT INTO user_sessions (token_hash, uid, expires_at)
+        VALUES ($1, $2, to_timestamp($3))
+      `,
+      [tokenHash, uid, expiresAt / 1000]
+    );
+  }
+
+  async getUserSession(tokenHash: string) {
+    const {
+      rows,
+    } = await pool.query('SELECT uid FROM user_sessions WHERE token_hash = $1 AND expires_at > NOW()', [
+      tokenHash,
+    ]);
+    return _.first(rows)?.uid as string | undefined;
+  }
+
+  async deleteUserSession(tokenHash: string) {
+    await pool.query('DELETE FROM user_sessions WHERE token_hash = $1', [tokenHash]);
+  }
+
+  async linkLocalId(uid: string, localId: string) {
+    await pool.query(
+      `
+        INSERT INTO user_local_ids (local_id, uid)
+        VALUES ($1, $2)
+        ON CONFLICT (local_id) DO NOTHING
+      `,
+      [localId, uid]
+    );
+    const {rows} = await pool.query('SELECT uid FROM user_local_ids WHERE local_id = $1', [localId]);
+    return _.first(rows)!.uid as string;
+  }
+
+  async getLocalIds(uid: string) {
+    const {
+      rows,
+    } = await pool.query(
+      'SELECT local_id FROM user_local_ids WHERE uid = $1 ORDER BY linked_at ASC, local_id ASC',
+      [uid]
+    );
+    return rows.map((row: {local_id: string}) => row.local_id);
+  }
+
+  async getLocalIdUid(localId: string) {
+    const {rows} = await pool.query('SELECT uid FROM user_local_ids WHERE local_id = $1', [localId]);
+    return _.first(rows)?.uid as string | undefined;
+  }
+
+  // the advisory lock keeps two browsers from claiming the same local id at once
+  async claimLocalId(localId: string, tokenHash: string) {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [localId]);
+      const {rowCount} = await client.query(
+        `
+          INSERT INTO local_id_tokens (token_hash, local_id)
+          SELECT $1, $2
+          WHERE NOT EXISTS (SELECT 1 FROM local_id_tokens WHERE local_id = $2)
+        `,
+        [tokenHash, localId]
+      );
+      await client.query('COMMIT');
+      return rowCount > 0;
+    } catch (e) {
+      await client.query('ROLLBACK');
+      throw e;
+    } finally {
+      client.release();
+    }
+  }
+
+  async addLocalIdToken(localId: string, tokenHash: string) {
+    await pool.query('INSERT INTO local_id_tokens (token_hash, local_id) VALUES ($1, $2)', [
+      tokenHash,
+      localId,
+    ]);
+  }
+
+  async hasLocalIdToken(localId: string, tokenHash: string) {
+    const {rows} = await pool.query('SELECT 1 FROM local_id_tokens WHERE token_hash = $1 AND local_id = $2', [
+      tokenHash,
+      localId,
+    ]);
+    return rows.length > 0;
+  }
+
+  async hasGameEventsOfLocalId(localId: string) {
+    // uses game_events_params_id_idx
+    const {rows} = await pool.query(
+      `
+        SELECT 1 FROM game_events
+        WHERE event_payload->'params'->>'id' = $1
+        LIMIT 1
+      `,
+      [localId]
+    );
+    return rows.length > 0;
+  }
+
+  async addUserGame(game: Omit<UserGame, 'joinedAt'> & {joinedAt?: number}) {
+    await pool.query(
+      `
+        INSERT INTO user_games (uid, gid, pid, v2, solved, joined_at)
+        VALUES ($1, $2, $3, $4, $5, to_timestamp($6))
+        ON CONFLICT (uid, gid) DO NOTHING
+      `,
+      [game.uid, game.gid, game.pid, game.v2, game.solved, (game.joinedAt ?? Date.now()) / 1000]
+    );
+  }
+
+  async markUserGamesSolved(gid: string) {
+    await pool.query(
+      `
+        UPDATE user_games SET solved = true, solved_at = NOW()
+        WHERE gid = $1 AND NOT solved
+      `,
+      [gid]
+    );
+  }
+
+  async getUserGames(uids: string[]) {
+    const {rows} = await pool.query(
+      `
+        SELECT uid, gid, pid, v2, solved, joined_at
+        FROM user_games
+        WHERE uid = ANY($1)
+        ORDER BY joined_at DESC
+      `,
+      [uids]
+    );
+    return rows.map(
+      (row: {uid: string; gid: string; pid: string; v2: boolean; solved: boolean; joined_at: Date}) => ({
+        uid: row.uid,
+        gid: row.gid,
+        pid: row.pid,
+        v2: row.v2,
+        solved: row.solved,
+        joinedAt: row.joined_at.getTime(),
+      })
+    );
+  }
+}
+
+export default PostgresStorage;
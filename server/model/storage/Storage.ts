@@ -0,0 +1,170 @@
+import type {RoomEvent} from '@shared/roomEvents';
+import type {GameSnapshotReducer, ListPuzzleRequestFilters, PuzzleJson} from '@shared/types';
+import type {GameEvent} from '../game';
+import type {GameSnapshot} from '../game_snapshot';
+import type {RawFetchedPuzzleSolve} from '../puzzle_solve';
+
+export interface ListedPuzzle {
+  pid: string;
+  content: PuzzleJson;
+  times_solved: number;
+  tags: string[];
+}
+
+// a puzzle uploaded by an account, listed on its My puzzles page
+export interface OwnedPuzzle extends ListedPuzzle {
+  is_public: boolean;
+  uploaded_at: number; // ms since epoch
+}
+
+export interface TagCount {
+  tag: string;
+  count: number; // the number of public puzzles with the tag
+}
+
+// the position of a puzzle in the order of listPuzzles: the values of its sort keys, the last of which is its pid
+export type ListPuzzlesCursor = (string | number | null)[];
+
+export interface ListedPuzzlesPage {
+  puzzles: ListedPuzzle[];
+  cursor: ListPuzzlesCursor | null; // the position of the last puzzle, null if there are no more
+}
+
+export interface StoredCollection {
+  collectionId: string;
+  uid: string; // the account that created it
+  name: string;
+  pids: string[]; // in order
+  createdAt: number; // ms since epoch
+}
+
+export type Counter = 'gid' | 'pid';
+
+export interface UserGame {
+  uid: string;
+  gid: string;
+  pid: string;
+  v2: boolean;
+  solved: boolean;
+  joinedAt: number; // ms since epoch
+}
+
+export interface StoredUser {
+  uid: string;
+  username: string;
+  passwordHash: string;
+}
+
+/**
+ * Everything the models read from and write to a database.
+ * PostgresStorage is used in production; MemoryStorage lets the server run without any setup.
+ */
+export interface Storage {
+  // throws if the database can't be reached
+  ping(): Promise<void>;
+
+  // ======== Game Events ========= //
+  getGameEvents(gid: string): Promise<GameEvent[]>;
+  getGameEventsAfter(gid: string, seq: number): Promise<GameEvent[]>;
+  getGameEventsSinceTimestamp(gid: string, timestamp: number): Promise<GameEvent[]>;
+  getGameCreateEvent(gid: string): Promise<GameEvent | undefined>;
+  getGameEventById(gid: string, id: string): Promise<GameEvent | undefined>;
+  // returns the seq the event was stored under, or undefined if an event with the same id was already stored
+  addGameEvent(gid: string, event: GameEvent): Promise<number | undefined>;
+  // the gids of the games created from pid that have no recorded solve
+  getUnsolvedGamesOfPuzzle(pid: string): Promise<string[]>;
+
+  getGameSnapshot(gid: string, reducer: GameSnapshotReducer): Promise<GameSnapshot | undefined>;
+  // only replaces the current snapshot if the new one covers more events
+  saveGameSnapshot(gid: string, snapshot: GameSnapshot): Promise<void>;
+
+  // ======== Room Events ========= //
+  getRoomEvents(rid: string): Promise<RoomEvent[]>;
+  // returns the seq the event was stored under
+  addRoomEvent(rid: string, event: RoomEvent): Promise<number>;
+
+  // ======== Puzzles ========= //
+  getPuzzle(pid: string): Promise<PuzzleJson | undefined>;
+  // the puzzles after the cursor if given (offset is then 0), so that pages don't shift as puzzles are uploaded
+  listPuzzles(
+    filter: ListPuzzleRequestFilters,
+    limit: number,
+    offset: number,
+    after?: ListPuzzlesCursor
+  ): Promise<ListedPuzzlesPage>;
+  // uid is the account uploading the puzzle, if any
+  addPuzzle(
+    pid: string,
+    puzzle: PuzzleJson,
+    isPublic: boolean,
+    fingerprint: string,
+    uid?: string
+  ): Promise<void>;
+  // the most solved public puzzle with the fingerprint, if any
+  getPublicPuzzleByFingerprint(fingerprint: string): Promise<string | undefined>;
+  // undefined if the puzzle doesn't exist, null if it has no owner
+  getPuzzleUid(pid: string): Promise<string | null | undefined>;
+  updatePuzzle(
+    pid: string,
+    update: {content?: PuzzleJson; fingerprint?: string; isPublic?: boolean; tags?: string[]}
+  ): Promise<void>;
+  // also deletes its solves
+  deletePuzzle(pid: string): Promise<void>;
+  // the puzzles uploaded by uid, most recent first
+  listUserPuzzles(uid: string): Promise<OwnedPuzzle[]>;
+  // the public puzzles among pids, in any order
+  getPublicPuzzles(pids: string[]): Promise<ListedPuzzle[]>;
+  // the tags of the most public puzzles, most used first
+  listPopularTags(limit: number): Promise<TagCount[]>;
+
+  // ======== Collections ========= //
+  addCollection(collection: Omit<StoredCollection, 'createdAt'>): Promise<void>;
+  getCollection(collectionId: string): Promise<StoredCollection | undefined>;
+  // most recent first
+  listCollections(limit: number): Promise<StoredCollection[]>;
+  updateCollection(collectionId: string, update: {name?: string; pids?: string[]}): Promise<void>;
+  deleteCollection(collectionId: string): Promise<void>;
+
+  // ======== Puzzle Solves ========= //
+  isGidAlreadySolved(gid: string): Promise<boolean>;
+  // also increments the times_solved of the puzzle; does nothing if the solve was already recorded
+  addPuzzleSolve(pid: string, gid: string, timeToSolve: number): Promise<void>;
+  // one row per check or reveal event of each solved game (or a single row if there are none)
+  getPuzzleSolves(gids: string[]): Promise<RawFetchedPuzzleSolve[]>;
+
+  // ======== Counters ========= //
+  incrementCounter(counter: Counter): Promise<string>;
+
+  // ======== Users ========= //
+  // returns false if the username is already taken (case-insensitively)
+  addUser(user: StoredUser): Promise<boolean>;
+  getUser(uid: string): Promise<StoredUser | undefined>;
+  getUserByUsername(username: string): Promise<StoredUser | undefined>;
+
+  addUserSession(tokenHash: string, uid: string, expiresAt: number): Promise<void>;
+  // the uid of the session, or undefined if it doesn't exist or expired
+  getUserSession(tokenHash: string): Promise<string | undefined>;
+  deleteUserSession(tokenHash: string): Promise<void>;
+
+  // returns the uid the local id is linked to, which is not uid if another account linked it first
+  linkLocalId(uid: string, localId: string): Promise<string>;
+  // in the order they were linked
+  getLocalIds(uid: string): Promise<string[]>;
+  // the uid of the account the local id is linked to, if any
+  getLocalIdUid(localId: string): Promise<string | undefined>;
+
+  // adds the first token of the local id; returns false (adding nothing) if it already has one
+  claimLocalId(localId: string, tokenHash: string): Promise<boolean>;
+  addLocalIdToken(localId: string, tokenHash: string): Promise<void>;
+  hasLocalIdToken(localId: string, tokenHash: string): Promise<boolean>;
+  // whether any game event was sent as the local id, i.e. has it as its params.id
+  hasGameEventsOfLocalId(localId: string): Promise<boolean>;
+
+  // ======== User Games ========= //
+  // does nothing if the user already joined the game
+  addUserGame(game: Omit<UserGame, 'joinedAt'> & {joinedAt?: number}): Promise<void>;
+  // marks the game as solved for every user who joined it
+  markUserGamesSolved(gid: string): Promise<void>;
+  // the games of any of uids, most recently joined first
+  getUserGames(uids: string[]): Promise<UserGame[]>;
+}
@@ -0,0 +1,30 @@
+import {dbQueryDuration} from '../../metrics';
+import MemoryStorage from './MemoryStorage';
+import PostgresStorage from './PostgresStorage';
+import {Storage} from './Storage';
+
+// set STORAGE=memory to run the server without postgres (e.g. for frontend development or tests).
+// Nothing is persisted across restarts, and a single server process must be used
+export const usesMemoryStorage = process.env.STORAGE === 'memory';
+
+// records the duration of every call to storage in dbQueryDuration, labeled with the name of the method
+function withMetrics(target: Storage): Storage {
+  return new Proxy(target, {
+    get(obj, prop) {
+      const value = Reflect.get(obj, prop);
+      if (typeof value !== 'function') {
+        return value;
+      }
+      return async (...args: unknown[]) => {
+        const end = dbQueryDuration.startTimer({function: String(prop)});
+        try {
+          return await value.apply(obj, args);
+        } finally {
+          end();
+        }
+      };
+    },
+  });
+}
+
+export const storage: Storage = withMetrics(usesMemoryStorage ? new MemoryStorage() : new PostgresStorage());
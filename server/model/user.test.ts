@@ -0,0 +1,101 @@
+import _ from 'lodash';
+import {addGameEvent} from './game';
+import {authenticateSocket, getSessionUid, issueIdToken, logIn, logOut, ownsLocalId, signUp} from './user';
+
+// each test plays as ids of its own, as the storage is shared by the whole file
+const newLocalId = () => _.uniqueId('local-id-');
+const newUsername = () => _.uniqueId('user');
+const PASSWORD = 'correct horse';
+
+describe('issueIdToken', () => {
+  it('gives an unlinked id to the first browser to ask for it only', async () => {
+    const localId = newLocalId();
+    const idToken = await issueIdToken(localId);
+    expect(await ownsLocalId(localId, idToken)).toBe(true);
+    await expect(issueIdToken(localId)).rejects.toMatchObject({statusCode: 403});
+    expect(await ownsLocalId(localId, 'guessed token')).toBe(false);
+  });
+
+  it('gives a linked id only to browsers logged in to its account', async () => {
+    const localId = newLocalId();
+    const idToken = await issueIdToken(localId);
+    const {token} = await signUp(newUsername(), PASSWORD, localId, idToken);
+    await expect(issueIdToken(localId)).rejects.toMatchObject({statusCode: 403});
+    const {token: otherToken} = await signUp(newUsername(), PASSWORD);
+    await expect(issueIdToken(localId, otherToken)).rejects.toMatchObject({statusCode: 403});
+    expect(await issueIdToken(localId, token)).toEqual(expect.any(String));
+  });
+
+  it('refuses the ids played as before id tokens existed, as anyone can read them in the game events', async () => {
+    const localId = newLocalId();
+    await addGameEvent(_.uniqueId('game-'), {
+      timestamp: Date.now(),
+      type: 'updateCell',
+      params: {cell: {r: 0, c: 0}, value: 'A', id: localId},
+      id: _.uniqueId('event-'),
+    });
+    await expect(issueIdToken(localId)).rejects.toMatchObject({
+      statusCode: 403,
+      message: `${localId} was played as before ids were verified, so it can't be verified now`,
+    });
+  });
+});
+
+describe('signUp and logIn', () => {
+  it('start a session of the account until logging out', async () => {
+    const username = newUsername();
+    const {user} = await signUp(username, PASSWORD);
+    const {token} = await logIn(username, PASSWORD);
+    expect(await getSessionUid(token)).toBe(user.uid);
+    await logOut(token);
+    expect(await getSessionUid(token)).toBeUndefined();
+  });
+
+  it('give the same error for unknown usernames and wrong passwords', async () => {
+    const username = newUsername();
+    await signUp(username, PASSWORD);
+    const error = {statusCode: 401, message: 'Incorrect username or password'};
+    await expect(logIn(username, 'wrong password')).rejects.toMatchObject(error);
+    await expect(logIn(newUsername(), PASSWORD)).rejects.toMatchObject(error);
+  });
+
+  it('reject taken usernames', async () => {
+    const username = newUsername();
+    await signUp(username, PASSWORD);
+    await expect(signUp(username, PASSWORD)).rejects.toMatchObject({statusCode: 409});
+  });
+
+  it('link the local id of the browser only with its id token', async () => {
+    const localId = newLocalId();
+    const idToken = await issueIdToken(localId);
+    const {user: withoutProof} = await signUp(newUsername(), PASSWORD, localId, 'not the token');
+    expect(withoutProof.localIds).toEqual([]);
+    const username = newUsername();
+    await signUp(username, PASSWORD);
+    const {user} = await logIn(username, PASSWORD, localId, idToken);
+    expect(user.localIds).toEqual([localId]);
+  });
+});
+
+describe('authenticateSocket', () => {
+  it('requires the id token of an unlinked id', async () => {
+    const localId = newLocalId();
+    const idToken = await issueIdToken(localId);
+    expect(await authenticateSocket(localId, idToken, undefined)).toEqual({id: localId, uid: undefined});
+    await expect(authenticateSocket(localId, 'wrong token', undefined)).rejects.toThrow(
+      `Invalid id token for ${localId}`
+    );
+    await expect(authenticateSocket(localId, undefined, undefined)).rejects.toThrow();
+    await expect(authenticateSocket(undefined, idToken, undefined)).rejects.toThrow('Missing id');
+  });
+
+  it('requires a session of the account a linked id is linked to', async () => {
+    const localId = newLocalId();
+    const idToken = await issueIdToken(localId);
+    const {token, user} = await signUp(newUsername(), PASSWORD, localId, idToken);
+    expect(await authenticateSocket(localId, undefined, token)).toEqual({id: localId, uid: user.uid});
+    await expect(authenticateSocket(localId, idToken, undefined)).rejects.toThrow(
+      `Log in to play as ${localId}`
+    );
+  });
+});
@@ -0,0 +1,235 @@
+import _ from 'lodash';
+import crypto from 'crypto';
+import Joi from 'joi';
+import {promisify} from 'util';
+import * as uuid from 'uuid';
+import type {AuthUser} from '@shared/types';
+import {storage} from './storage';
+import type {StoredUser} from './storage/Storage';
+
+// ============= User Accounts ===========
+// Passwords are hashed with scrypt; sessions are random tokens, of which only the sha256 is stored.
+
+const SESSION_DURATION = 30 * 24 * 60 * 60 * 1000; // 30 days
+const SCRYPT_KEY_LENGTH = 64;
+const SALT_BYTES = 16;
+const TOKEN_BYTES = 32;
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: string,
+  salt: string,
+  keylen: number
+) => Promise<Buffer>;
+
+const httpError = (message: string, statusCode: number) => _.assign(new Error(message), {statusCode});
+
+// the accounts that can e.g. tag any puzzle, configured with ADMIN_USERNAMES=alice,bob
+const adminUsernames = _.compact(
+  (process.env.ADMIN_USERNAMES || '').split(',').map((s) => s.trim().toLowerCase())
+);
+
+const credentialsValidator = Joi.object({
+  username: Joi.string()
+    .required()
+    .min(3)
+    .max(32)
+    .pattern(/^[a-zA-Z0-9_-]+$/)
+    .message('username may only contain letters, digits, dashes and underscores'),
+  password: Joi.string().min(8).max(256).required(),
+  localId: Joi.string().max(64).optional(),
+  idToken: Joi.string().optional(),
+});
+
+const localIdValidator = Joi.string().max(64).required();
+
+function validate(validator: Joi.Schema, value: unknown) {
+  const {error} = validator.validate(value);
+  if (error) {
+    throw httpError(error.message, 400);
+  }
+}
+
+const newToken = () => crypto.randomBytes(TOKEN_BYTES).toString('hex');
+
+// stored as scrypt$<salt>$<hash>, so that the parameters can change without invalidating older hashes
+async function hashPassword(password: string) {
+  const salt = crypto.randomBytes(SALT_BYTES).toString('hex');
+  const hash = await scrypt(password, salt, SCRYPT_KEY_LENGTH);
+  return `scrypt$${salt}$${hash.toString('hex')}`;
+}
+
+// checked in place of the hash of unknown usernames, so that logging in to them takes as long
+const dummyPasswordHash = hashPassword(newToken());
+
+async function verifyPassword(password: string, passwordHash: string) {
+  const [algorithm, salt, expected] = passwordHash.split('$');
+  if (algorithm !== 'scrypt') {
+    return false;
+  }
+  const hash = await scrypt(password, salt, SCRYPT_KEY_LENGTH);
+  return crypto.timingSafeEqual(hash, Buffer.from(expected, 'hex'));
+}
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+async function toAuthUser(user: StoredUser): Promise<AuthUser> {
+  return {
+    uid: user.uid,
+    username: user.username,
+    localIds: await storage.getLocalIds(user.uid),
+  };
+}
+
+async function createSession(uid: string) {
+  const token = newToken();
+  await storage.addUserSession(hashToken(token), uid, Date.now() + SESSION_DURATION);
+  return token;
+}
+
+// links the local id of the browser signing up or logging in, so that its history carries over;
+// it is skipped if idToken doesn't prove the browser plays as it, or another account already linked it
+// (e.g. on a shared computer)
+async function linkLocalIdIfUnclaimed(uid: string, localId?: string, idToken?: string) {
+  if (localId && (await isIdToken(localId, idToken))) {
+    await storage.linkLocalId(uid, localId);
+  }
+}
+
+export async function signUp(username: string, password: string, localId?: string, idToken?: string) {
+  validate(credentialsValidator, {username, password, localId, idToken});
+  const user = {
+    uid: uuid.v4(),
+    username,
+    passwordHash: await hashPassword(password),
+  };
+  if (!(await storage.addUser(user))) {
+    throw httpError(`Username ${username} is already taken`, 409);
+  }
+  await linkLocalIdIfUnclaimed(user.uid, localId, idToken);
+  return {
+    token: await createSession(user.uid),
+    user: await toAuthUser(user),
+  };
+}
+
+export async function logIn(username: string, password: string, localId?: string, idToken?: string) {
+  validate(credentialsValidator, {username, password, localId, idToken});
+  const user = await storage.getUserByUsername(username);
+  // the same error (after the same work) either way, so that usernames can't be probed
+  const isPasswordCorrect = await verifyPassword(password, user?.passwordHash ?? (await dummyPasswordHash));
+  if (!user || !isPasswordCorrect) {
+    throw httpError('Incorrect username or password', 401);
+  }
+  await linkLocalIdIfUnclaimed(user.uid, localId, idToken);
+  return {
+    token: await createSession(user.uid),
+    user: await toAuthUser(user),
+  };
+}
+
+export async function logOut(token: string) {
+  await storage.deleteUserSession(hashToken(token));
+}
+
+// returns undefined if the token is missing, unknown or expired
+export async function getSessionUid(token?: string) {
+  if (!token) {
+    return undefined;
+  }
+  return storage.getUserSession(hashToken(token));
+}
+
+export async function getUser(uid: string): Promise<AuthUser> {
+  const user = await storage.getUser(uid);
+  if (!user) {
+    throw httpError(`User ${uid} does not exist`, 404);
+  }
+  return toAuthUser(user);
+}
+
+export async function linkLocalId(uid: string, localId: string, idToken: string): Promise<AuthUser> {
+  validate(localIdValidator, localId);
+  if (!(await isIdToken(localId, idToken))) {
+    throw httpError(`Invalid id token for ${localId}`, 403);
+  }
+  const linkedUid = await storage.linkLocalId(uid, localId);
+  if (linkedUid !== uid) {
+    throw httpError(`${localId} is already linked to another account`, 409);
+  }
+  return getUser(uid);
+}
+
+export async function isAdmin(uid: string) {
+  if (adminUsernames.length === 0) {
+    return false;
+  }
+  const user = await storage.getUser(uid);
+  return !!user && adminUsernames.includes(user.username.toLowerCase());
+}
+
+// ============= Local Ids ===========
+// Each browser plays as a local id it generates (see src/localAuth.js), and proves it with an id token the
+// server issues: to the first browser to ask for the id, then only to browsers logged in to the account the id
+// is linked to. Like session tokens, only their sha256 is stored.
+// The ids that were played as before id tokens existed can't be proven: they are public in the game events, so
+// anyone could ask for them. Their browsers switch to a new id instead (see requestIdToken in src/api/auth.ts)
+
+export async function issueIdToken(localId: string, sessionToken?: string) {
+  validate(localIdValidator, localId);
+  const token = newToken();
+  const linkedUid = await storage.getLocalIdUid(localId);
+  if (linkedUid) {
+    if (linkedUid !== (await getSessionUid(sessionToken))) {
+      throw httpError(`Log in to play as ${localId}`, 403);
+    }
+    await storage.addLocalIdToken(localId, hashToken(token));
+  } else if (await storage.hasGameEventsOfLocalId(localId)) {
+    // claimed ids have game events too, but their browsers already have a token
+    throw httpError(`${localId} was played as before ids were verified, so it can't be verified now`, 403);
+  } else if (!(await storage.claimLocalId(localId, hashToken(token)))) {
+    throw httpError(`${localId} is already used by another browser`, 403);
+  }
+  return token;
+}
+
+// whether idToken is one of the tokens issued for localId
+export async function isIdToken(localId: string, idToken: unknown) {
+  return typeof idToken === 'string' && !!idToken && storage.hasLocalIdToken(localId, hashToken(idToken));
+}
+
+// whether the caller plays as localId: it has an id token of it, or is logged in to the account it is linked to
+export async function ownsLocalId(localId: string, idToken?: string, sessionToken?: string) {
+  const linkedUid = await storage.getLocalIdUid(localId);
+  if (linkedUid) {
+    return linkedUid === (await getSessionUid(sessionToken));
+  }
+  return isIdToken(localId, idToken);
+}
+
+export interface SocketIdentity {
+  id: string; // the id the user plays as, i.e. the params.id of their game events
+  uid?: string; // the account of the user, if they are logged in
+}
+
+// A local id linked to an account can only be used with a session of that account; other ids need their id token.
+// Invalid or expired session tokens are ignored, as if the user were logged out
+export async function authenticateSocket(
+  id: unknown,
+  idToken: unknown,
+  token: unknown
+): Promise<SocketIdentity> {
+  if (typeof id !== 'string' || !id) {
+    throw new Error('Missing id');
+  }
+  const uid = typeof token === 'string' ? await getSessionUid(token) : undefined;
+  const linkedUid = await storage.getLocalIdUid(id);
+  if (linkedUid) {
+    if (linkedUid !== uid) {
+      throw new Error(`Log in to play as ${id}`);
+    }
+  } else if (!(await isIdToken(id, idToken))) {
+    // see src/sockets/getSocket.ts
+    throw new Error(`Invalid id token for ${id}`);
+  }
+  return {id, uid};
+}
@@ -0,0 +1,44 @@
+import type {UserHistoryEntry} from '@shared/types';
+import {storage} from './storage';
+
+// ============= User Games ===========
+// The history of each user: the games they played, and whether they were solved.
+// The server records a join on the first updateCell of a user, and a solve along with the puzzle solve.
+
+// uid is the id the user plays as; does nothing if the game doesn't exist or was already joined
+export async function recordGameJoin(uid: string, gid: string) {
+  const createEvent = await storage.getGameCreateEvent(gid);
+  if (!createEvent) {
+    return;
+  }
+  await storage.addUserGame({uid, gid, pid: String(createEvent.params.pid), v2: true, solved: false});
+}
+
+export async function addUserGame(uid: string, gid: string, pid: string, v2 = true) {
+  await storage.addUserGame({uid, gid, pid, v2, solved: false});
+}
+
+export async function markGameSolved(gid: string) {
+  await storage.markUserGamesSolved(gid);
+}
+
+// uid is either an id the user plays as, or the uid of an account, which also covers its linked local ids
+export async function getUserHistory(uid: string) {
+  const uids = [uid, ...(await storage.getLocalIds(uid))];
+  const history: {[gid: string]: UserHistoryEntry} = {};
+  (await storage.getUserGames(uids)).forEach((game) => {
+    const entry = history[game.gid];
+    if (entry) {
+      // several ids of the account joined the game
+      entry.solved = entry.solved || game.solved;
+      return;
+    }
+    history[game.gid] = {
+      pid: game.pid,
+      solved: game.solved,
+      time: game.joinedAt,
+      v2: game.v2,
+    };
+  });
+  return history;
+}
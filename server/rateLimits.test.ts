@@ -0,0 +1,37 @@
+import socketIo from 'socket.io';
+import {limitSocketEvent} from './rateLimits';
+
+// only the handshake is read
+const makeSocket = (address: string) => (({handshake: {address, headers: {}}} as unknown) as socketIo.Socket);
+
+// the default capacity of the chatMessages bucket
+const CHAT_MESSAGES = 10;
+
+describe('limitSocketEvent', () => {
+  it('limits the chat messages of each sender', () => {
+    const socket = makeSocket('1.1.1.1');
+    for (let i = 0; i < CHAT_MESSAGES; i += 1) {
+      limitSocketEvent(socket, 'chatty', 'chat');
+    }
+    expect(() => limitSocketEvent(socket, 'chatty', 'chat')).toThrow('Too many chat messages, slow down');
+    expect(() => limitSocketEvent(socket, 'chatty', 'updateCell')).not.toThrow();
+    expect(() => limitSocketEvent(socket, 'quiet', 'chat')).not.toThrow();
+  });
+
+  it('counts a message sent as both chat event types once', () => {
+    const socket = makeSocket('2.2.2.2');
+    for (let i = 0; i < CHAT_MESSAGES; i += 1) {
+      limitSocketEvent(socket, 'player', 'chat');
+      limitSocketEvent(socket, 'player', 'sendChatMessage');
+    }
+    expect(() => limitSocketEvent(socket, 'player', 'sendChatMessage')).toThrow('Too many chat messages');
+  });
+
+  it('shares the buckets of a sender between its sockets', () => {
+    for (let i = 0; i < CHAT_MESSAGES; i += 1) {
+      limitSocketEvent(makeSocket('3.3.3.3'), 'reconnecting', 'chat');
+    }
+    expect(() => limitSocketEvent(makeSocket('3.3.3.3'), 'reconnecting', 'chat')).toThrow();
+    expect(() => limitSocketEvent(makeSocket('4.4.4.4'), 'reconnecting', 'chat')).not.toThrow();
+  });
+});
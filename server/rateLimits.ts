@@ -0,0 +1,91 @@
+import express from 'express';
+import socketIo from 'socket.io';
+import {rateLimitedTotal} from './metrics';
+import RateLimiter, {RateLimit} from './RateLimiter';
+
+// ============= Rate Limits ===========
+// Each limit can be configured with an environment variable of the form <capacity>:<perSecond>,
+// e.g. RATE_LIMIT_CHAT_MESSAGES=10:0.5 allows bursts of 10 chat messages, then one every 2 seconds.
+
+function getLimit(name: string, defaultLimit: RateLimit): RateLimit {
+  const value = process.env[name];
+  if (!value) {
+    return defaultLimit;
+  }
+  const [capacity, perSecond] = value.split(':').map(Number);
+  if (!(capacity > 0 && perSecond > 0)) {
+    throw new Error(`Invalid ${name} ${value}, expected <capacity>:<perSecond>`);
+  }
+  return {capacity, perSecond};
+}
+
+const limiters = {
+  // game, presence and room events of each user (the id a socket authenticated as) from each ip address
+  socketEvents: new RateLimiter(getLimit('RATE_LIMIT_SOCKET_EVENTS', {capacity: 100, perSecond: 20})),
+  // the same, for all the sockets of an ip address
+  ipSocketEvents: new RateLimiter(getLimit('RATE_LIMIT_IP_SOCKET_EVENTS', {capacity: 300, perSecond: 60})),
+  // chat messages of each user from each ip address, on top of socketEvents
+  chatMessages: new RateLimiter(getLimit('RATE_LIMIT_CHAT_MESSAGES', {capacity: 10, perSecond: 0.5})),
+  // POST/PATCH/DELETE requests of each ip address, e.g. uploading puzzles and creating games
+  ipWrites: new RateLimiter(getLimit('RATE_LIMIT_IP_WRITES', {capacity: 60, perSecond: 1})),
+  // signing up and logging in, which also guards against guessing passwords
+  ipAuth: new RateLimiter(getLimit('RATE_LIMIT_IP_AUTH', {capacity: 10, perSecond: 0.1})),
+  // id tokens, which every new browser asks for (e.g. a whole classroom behind one ip address)
+  ipIdTokens: new RateLimiter(getLimit('RATE_LIMIT_IP_ID_TOKENS', {capacity: 100, perSecond: 2})),
+};
+
+export type LimitName = keyof typeof limiters;
+
+// set TRUST_PROXY when running behind a reverse proxy, so that clients are told apart by X-Forwarded-For
+export const trustProxy = !!process.env.TRUST_PROXY;
+
+export function getSocketIp(socket: socketIo.Socket) {
+  const forwardedFor = socket.handshake.headers['x-forwarded-for'];
+  if (trustProxy && typeof forwardedFor === 'string') {
+    return forwardedFor.split(',')[0].trim();
+  }
+  return socket.handshake.address;
+}
+
+// returns false if the bucket of key is empty
+export function takeToken(limit: LimitName, key: string) {
+  if (limiters[limit].take(key)) {
+    return true;
+  }
+  rateLimitedTotal.inc({limit});
+  return false;
+}
+
+// The clients send each chat message twice, as a chat event (for classic games) and a sendChatMessage event
+// (for fencing games), see src/store/game.js. Each type has buckets of its own, so a message takes one token
+// from each rather than two from one
+const chatEventTypes = ['chat', 'sendChatMessage'];
+
+// Throws if any of the buckets of a socket event is empty, for the socket handlers to ack the error.
+// The buckets of a socket are those of the id it authenticated as, so that reconnecting doesn't refill them
+export function limitSocketEvent(socket: socketIo.Socket, senderId: string, eventType?: string) {
+  const ip = getSocketIp(socket);
+  const key = `${senderId}@${ip}`;
+  const isChat = !!eventType && chatEventTypes.includes(eventType);
+  const allowed =
+    takeToken('socketEvents', key) &&
+    takeToken('ipSocketEvents', ip) &&
+    (!isChat || takeToken('chatMessages', `${eventType}:${key}`));
+  if (!allowed) {
+    throw new Error(isChat ? 'Too many chat messages, slow down' : 'Too many events, slow down');
+  }
+}
+
+// responds with a 429 once the ip address of the request runs out of tokens; reads are not limited
+export const limitRequests = (limit: LimitName): express.RequestHandler => (req, res, next) => {
+  if (req.method === 'GET' || req.method === 'HEAD' || req.method === 'OPTIONS') {
+    next();
+    return;
+  }
+  if (!takeToken(limit, req.ip)) {
+    res.set('Retry-After', String(limiters[limit].getRetryAfter(req.ip)));
+    res.status(429).json({error: 'Too many requests, retry later'});
+    return;
+  }
+  next();
+};
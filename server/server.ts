@@ -7,18 +7,31 @@ import socketIo from 'socket.io';
 import _ from 'lodash';
 import cors from 'cors';
 import SocketManager from './SocketManager';
+import {closePostgresAdapter, createPostgresAdapter} from './PostgresAdapter';
+import {usesMemoryStorage} from './model/storage';
+import {registerSocketMetrics} from './metrics';
+import {trustProxy} from './rateLimits';
 import apiRouter from './api/router';
+import {markShuttingDown} from './api/health';
+import {pool} from './model/pool';
+import {waitForGameSnapshots} from './model/game_snapshot';
+import {waitForPuzzleUpdateEvents} from './model/game';
 
 const app = express();
 const server = new http.Server(app);
 app.use(bodyParser.json());
 const port = process.env.PORT || 3000;
 const io = socketIo(server, {pingInterval: 2000, pingTimeout: 5000});
+// give up on draining after this long, see shutDown
+const SHUTDOWN_TIMEOUT = 20000;
 
 // ======== HTTP Server Config ==========
 
 io.origins('*:*'); // allow CORS for socket.io route
 app.use(cors()); // allow CORS for all express routes
+if (trustProxy) {
+  app.set('trust proxy', true); // req.ip is read from X-Forwarded-For
+}
 if (process.env.NODE_ENV === 'production') {
   app.use(morgan('combined'));
 } else {
@@ -39,13 +52,38 @@ function logAllEvents(log: typeof console.log) {
   });
 }
 
+// ================== Shutdown ================
+
+// on SIGTERM (e.g. systemctl restart), finish storing the events in flight before exiting
+async function shutDown(socketManager: SocketManager) {
+  console.log('received SIGTERM, draining...');
+  setTimeout(() => {
+    console.log('timed out draining, exiting');
+    process.exit(1);
+  }, SHUTDOWN_TIMEOUT).unref();
+  markShuttingDown();
+  server.close(); // stop accepting connections
+  await socketManager.drain();
+  await waitForPuzzleUpdateEvents();
+  await waitForGameSnapshots();
+  closePostgresAdapter(); // pool.end waits for every connection, including the one held for LISTEN
+  await pool.end();
+  console.log('drained, exiting');
+  process.exit(0);
+}
+
 // ================== Main Entrypoint ================
 
 async function runServer() {
+  if (!usesMemoryStorage) {
+    io.adapter(await createPostgresAdapter()); // share broadcasts with the other server processes
+  }
   const socketManager = new SocketManager(io);
   socketManager.listen();
+  registerSocketMetrics(io);
   logAllEvents(console.log);
   server.listen(port, () => console.log(`Listening on port ${port}`));
+  process.once('SIGTERM', () => shutDown(socketManager));
   process.once('SIGUSR2', () => {
     server.close(() => {
       console.log('exiting...');
@@ -0,0 +1,89 @@
+import bodyParser from 'body-parser';
+import express from 'express';
+import http from 'http';
+import _ from 'lodash';
+import {AddressInfo} from 'net';
+import {PuzzleJson} from '@shared/types';
+import apiRouter from './api/router';
+import {signUp} from './model/user';
+
+// ============= Test Fixtures ===========
+
+// a list of clues, indexed by clue number
+export const makeClueList = (clues: Record<number, string>) => _.assign([] as string[], clues);
+
+// a valid upload of a 3x3 puzzle without black cells; overrides replace whole fields.
+// Like the uploads of the client, it has no solution: the grid holds the answers
+export function makePuzzle(overrides: Partial<PuzzleJson> = {}): PuzzleJson {
+  return {
+    grid: [
+      ['A', 'B', 'C'],
+      ['D', 'E', 'F'],
+      ['G', 'H', 'I'],
+    ],
+    info: {type: 'Mini Puzzle', title: 'Test Puzzle', author: 'Tester', copyright: '', description: ''},
+    circles: [],
+    shades: [],
+    clues: {
+      across: makeClueList({1: 'Abc', 4: 'Def', 5: 'Ghi'}),
+      down: makeClueList({1: 'Adg', 2: 'Beh', 3: 'Cfi'}),
+    },
+    ...overrides,
+  } as PuzzleJson;
+}
+
+// ============= Api Server ===========
+
+export interface ApiResponse {
+  status: number;
+  body: any; // the parsed JSON, if any, or else the text
+}
+
+export interface ApiServer {
+  // e.g. request('POST', '/auth/login', {username, password})
+  request(
+    method: string,
+    path: string,
+    body?: object,
+    headers?: Record<string, string>
+  ): Promise<ApiResponse>;
+  close(): Promise<void>;
+}
+
+// serves /api like server.ts, on a free port. Close it in afterAll
+export async function startApiServer(): Promise<ApiServer> {
+  const app = express();
+  app.use(bodyParser.json());
+  app.use('/api', apiRouter);
+  const server = http.createServer(app);
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  const {port} = server.address() as AddressInfo;
+
+  const request = (method: string, path: string, body?: object, headers: Record<string, string> = {}) =>
+    new Promise<ApiResponse>((resolve, reject) => {
+      const req = http.request(
+        {port, method, path: `/api${path}`, headers: {'Content-Type': 'application/json', ...headers}},
+        (res) => {
+          let data = '';
+          res.setEncoding('utf8');
+          res.on('data', (chunk) => {
+            data += chunk;
+          });
+          res.on('end', () => {
+            const isJson = /json/.test(res.headers['content-type'] ?? '');
+            resolve({status: res.statusCode!, body: data && isJson ? JSON.parse(data) : data || undefined});
+          });
+        }
+      );
+      req.on('error', reject);
+      req.end(body && JSON.stringify(body));
+    });
+  const close = () => new Promise<void>((resolve) => server.close(() => resolve()));
+  return {request, close};
+}
+
+// signs up a new account, and returns the headers of its requests
+export async function logInAsNewUser() {
+  const {token} = await signUp(_.uniqueId('user'), 'correct horse');
+  return {Authorization: `Bearer ${token}`};
+}
@@ -0,0 +1,7 @@
+// socket.io-adapter ships without typings; its Adapter is the one described by @types/socket.io
+declare module 'socket.io-adapter' {
+  import {Adapter as SocketIoAdapter, Namespace} from 'socket.io';
+
+  const Adapter: new (nsp: Namespace) => SocketIoAdapter;
+  export = Adapter;
+}
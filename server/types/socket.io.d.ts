@@ -0,0 +1,11 @@
+// close is missing from the EngineSocket typings of @types/socket.io
+import 'socket.io';
+
+declare module 'socket.io' {
+  interface EngineSocket {
+    /**
+     * Closes the underlying connection, without disconnecting the socket.io sockets on it
+     */
+    close(): void;
+  }
+}
@@ -0,0 +1,117 @@
+// ========== /api/auth ============
+
+import {
+  AuthResponse,
+  GetMeResponse,
+  IdTokenResponse,
+  LinkLocalIdRequest,
+  LinkLocalIdResponse,
+  LogInRequest,
+  LogOutResponse,
+  SignUpRequest,
+} from '../shared/types';
+import {SERVER_URL} from './constants';
+import getLocalId, {getSessionToken, getStoredIdToken, resetLocalId, setIdToken} from '../localAuth';
+
+// for the requests that act on behalf of the logged in account, if any
+export function getAuthHeaders(): Record<string, string> {
+  const token = getSessionToken();
+  return token ? {Authorization: `Bearer ${token}`} : {};
+}
+
+// throws the message the server responded with (e.g. "Incorrect username or password"), along with its status
+async function authFetch<T>(path: string, token: string | null, data?: object): Promise<T> {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
+  if (token) {
+    headers.Authorization = `Bearer ${token}`;
+  }
+  const resp = await fetch(`${SERVER_URL}/api/auth${path}`, {
+    method: data ? 'POST' : 'GET',
+    headers,
+    body: data && JSON.stringify(data),
+  });
+  const body = await resp.json();
+  if (!resp.ok) {
+    throw Object.assign(new Error(body.error || `Request failed with status ${resp.status}`), {
+      status: resp.status,
+    });
+  }
+  return body;
+}
+
+export async function signUp(data: SignUpRequest): Promise<AuthResponse> {
+  return authFetch('/signup', null, data);
+}
+
+export async function logIn(data: LogInRequest): Promise<AuthResponse> {
+  return authFetch('/login', null, data);
+}
+
+export async function logOut(token: string): Promise<LogOutResponse> {
+  return authFetch('/logout', token, {});
+}
+
+export async function fetchMe(token: string): Promise<GetMeResponse> {
+  return authFetch('/me', token);
+}
+
+export async function linkLocalId(token: string, data: LinkLocalIdRequest): Promise<LinkLocalIdResponse> {
+  return authFetch('/link_local_id', token, data);
+}
+
+// the requests for the id token of each local id, so that concurrent callers share one
+const idTokenRequests = new Map<string, Promise<string>>();
+
+// called with the previous id and the reason the server gave when this browser switches to a new id
+type LocalIdResetListener = (previousId: string, reason: string) => void;
+const localIdResetListeners: LocalIdResetListener[] = [];
+
+export function onLocalIdReset(listener: LocalIdResetListener) {
+  localIdResetListeners.push(listener);
+}
+
+// the wait after the first 429, doubled after each one up to MAX_ID_TOKEN_RETRY_DELAY
+const ID_TOKEN_RETRY_DELAY = 1000;
+const MAX_ID_TOKEN_RETRY_DELAY = 30000;
+
+async function requestIdToken(localId: string, retryDelay = ID_TOKEN_RETRY_DELAY): Promise<string> {
+  try {
+    const {idToken} = await authFetch<IdTokenResponse>('/id_token', getSessionToken(), {localId});
+    setIdToken(localId, idToken);
+    return idToken;
+  } catch (e) {
+    if (e.status === 403) {
+      // another browser got the id first, it was played as before ids were verified, or it belongs to an
+      // account this browser is logged out of
+      resetLocalId();
+      localIdResetListeners.forEach((listener) => listener(localId, e.message));
+      return getIdToken();
+    }
+    if (e.status !== 429) {
+      throw e;
+    }
+    // rate limited, e.g. when many browsers share an ip address
+    await new Promise((resolve) => setTimeout(resolve, retryDelay));
+    return requestIdToken(localId, Math.min(retryDelay * 2, MAX_ID_TOKEN_RETRY_DELAY));
+  }
+}
+
+// the id token of the local id, which the server issues the first time it is asked for (see issueIdToken in
+// server/model/user.ts). If the id can't be used, this browser switches to a new one, and tells the listeners of
+// onLocalIdReset
+export async function getIdToken(): Promise<string> {
+  const storedIdToken = getStoredIdToken();
+  if (storedIdToken) {
+    return storedIdToken;
+  }
+  const localId = getLocalId();
+  if (!idTokenRequests.has(localId)) {
+    idTokenRequests.set(
+      localId,
+      requestIdToken(localId).finally(() => idTokenRequests.delete(localId))
+    );
+  }
+  return idTokenRequests.get(localId)!;
+}
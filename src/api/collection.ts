@@ -0,0 +1,53 @@
+// ========== /api/collection ============
+
+import {
+  CreateCollectionRequest,
+  CreateCollectionResponse,
+  DeleteCollectionResponse,
+  GetCollectionResponse,
+  ListCollectionsResponse,
+  UpdateCollectionRequest,
+  UpdateCollectionResponse,
+} from '../shared/types';
+import {SERVER_URL} from './constants';
+import {getAuthHeaders} from './auth';
+
+// throws the message the server responded with, e.g. "Collection 1234abcd does not exist"
+async function collectionFetch<T>(path: string, init: RequestInit = {}, data?: object): Promise<T> {
+  const resp = await fetch(`${SERVER_URL}/api/collection${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...getAuthHeaders(),
+    },
+    body: data && JSON.stringify(data),
+  });
+  const body = await resp.json();
+  if (!resp.ok) {
+    throw new Error(body.error || `Request failed with status ${resp.status}`);
+  }
+  return body;
+}
+
+export async function fetchCollections(): Promise<ListCollectionsResponse> {
+  return collectionFetch('');
+}
+
+export async function fetchCollection(collectionId: string): Promise<GetCollectionResponse> {
+  return collectionFetch(`/${encodeURIComponent(collectionId)}`);
+}
+
+export async function createCollection(data: CreateCollectionRequest): Promise<CreateCollectionResponse> {
+  return collectionFetch('', {method: 'POST'}, data);
+}
+
+export async function updateCollection(
+  collectionId: string,
+  data: UpdateCollectionRequest
+): Promise<UpdateCollectionResponse> {
+  return collectionFetch(`/${encodeURIComponent(collectionId)}`, {method: 'PATCH'}, data);
+}
+
+export async function deleteCollection(collectionId: string): Promise<DeleteCollectionResponse> {
+  return collectionFetch(`/${encodeURIComponent(collectionId)}`, {method: 'DELETE'});
+}
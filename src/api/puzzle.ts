@@ -1,25 +1,79 @@
 import {SERVER_URL} from './constants';
-import {AddPuzzleRequest, AddPuzzleResponse, RecordSolveRequest, RecordSolveResponse} from '../shared/types';
+import {getAuthHeaders} from './auth';
+import {
+  AddPuzzleRequest,
+  AddPuzzleResponse,
+  DeletePuzzleResponse,
+  ListUserPuzzlesResponse,
+  RecordSolveRequest,
+  RecordSolveResponse,
+  UpdatePuzzleRequest,
+  UpdatePuzzleResponse,
+} from '../shared/types';
+
+// throws the message the server responded with, e.g. when the puzzle belongs to another account,
+// along with its problems if any (see ErrorResponse)
+async function parseResponse(resp: Response) {
+  const body = await resp.json();
+  if (!resp.ok) {
+    throw Object.assign(new Error(body.error || `Request failed with status ${resp.status}`), {
+      problems: body.problems as string[] | undefined,
+    });
+  }
+  return body;
+}
 
 export async function createNewPuzzle(
   puzzle: AddPuzzleRequest,
   pid: string | undefined,
-  opts: {isPublic?: boolean} = {}
+  opts: {isPublic?: boolean; allowDuplicate?: boolean} = {}
 ): Promise<AddPuzzleResponse> {
   const url = `${SERVER_URL}/api/puzzle`;
   const data = {
     puzzle,
     pid,
     isPublic: !!opts.isPublic,
+    allowDuplicate: !!opts.allowDuplicate,
   };
   const resp = await fetch(url, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
+      ...getAuthHeaders(), // the puzzle belongs to the logged in account
     },
     body: JSON.stringify(data),
   });
-  return resp.json();
+  return parseResponse(resp);
+}
+
+export async function updatePuzzle(pid: string, data: UpdatePuzzleRequest): Promise<UpdatePuzzleResponse> {
+  const url = `${SERVER_URL}/api/puzzle/${pid}`;
+  const resp = await fetch(url, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+      ...getAuthHeaders(),
+    },
+    body: JSON.stringify(data),
+  });
+  return parseResponse(resp);
+}
+
+export async function deletePuzzle(pid: string): Promise<DeletePuzzleResponse> {
+  const url = `${SERVER_URL}/api/puzzle/${pid}`;
+  const resp = await fetch(url, {
+    method: 'DELETE',
+    headers: getAuthHeaders(),
+  });
+  return parseResponse(resp);
+}
+
+export async function fetchUserPuzzles(uid: string): Promise<ListUserPuzzlesResponse> {
+  const url = `${SERVER_URL}/api/user/${encodeURIComponent(uid)}/puzzles`;
+  const resp = await fetch(url, {
+    headers: getAuthHeaders(),
+  });
+  return parseResponse(resp);
 }
 
 export async function recordSolve(
@@ -2,7 +2,7 @@
 
 // eslint-disable-next-line import/no-extraneous-dependencies
 import qs from 'qs';
-import {ListPuzzleRequest, ListPuzzleResponse} from '../shared/types';
+import {ListPuzzleRequest, ListPuzzleResponse, ListTagsResponse} from '../shared/types';
 import {SERVER_URL} from './constants';
 
 export async function fetchPuzzleList(query: ListPuzzleRequest): Promise<ListPuzzleResponse> {
@@ -10,3 +10,10 @@ export async function fetchPuzzleList(query: ListPuzzleRequest): Promise<ListPuz
   const resp = await fetch(url);
   return await resp.json();
 }
+
+// the most used tags, offered as chips above the puzzle list
+export async function fetchPopularTags(): Promise<ListTagsResponse> {
+  const url = `${SERVER_URL}/api/puzzle_list/tags`;
+  const resp = await fetch(url);
+  return await resp.json();
+}
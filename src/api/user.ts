@@ -0,0 +1,25 @@
+// ========== /api/user ============
+
+import {AddUserGameRequest, AddUserGameResponse, GetUserHistoryResponse} from '../shared/types';
+import {SERVER_URL} from './constants';
+import {getAuthHeaders, getIdToken} from './auth';
+
+export async function fetchUserHistory(uid: string): Promise<GetUserHistoryResponse> {
+  const url = `${SERVER_URL}/api/user/${encodeURIComponent(uid)}/history`;
+  const resp = await fetch(url);
+  return resp.json();
+}
+
+export async function addUserGame(uid: string, data: AddUserGameRequest): Promise<AddUserGameResponse> {
+  const url = `${SERVER_URL}/api/user/${encodeURIComponent(uid)}/history`;
+  const resp = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Id-Token': await getIdToken(),
+      ...getAuthHeaders(),
+    },
+    body: JSON.stringify(data),
+  });
+  return resp.json();
+}
@@ -6,12 +6,17 @@ import {Helmet} from 'react-helmet';
 import Flex from 'react-flexview';
 import {makeStyles} from '@material-ui/core';
 import {useSocket} from '../../sockets/useSocket';
-import {emitAsync} from '../../sockets/emitAsync';
+import {emitAsync, emitAsyncWithRetry} from '../../sockets/emitAsync';
 import Player from '../Player';
 import {transformGameToPlayerProps} from './transformGameToPlayerProps';
 import {usePlayerActions} from './usePlayerActions';
 import {useToolbarActions} from './useToolbarActions';
 import {GameEvent} from '../../shared/fencingGameEvents/types/GameEvent';
+import {
+  SyncAllGameEventsRequest,
+  SyncAllGameEventsResponse,
+  SyncGameEventsSinceRequest,
+} from '../../shared/types';
 import {getUser} from '../../store/user';
 import {FencingScoreboard} from './FencingScoreboard';
 import {TEAM_IDS} from '../../shared/fencingGameEvents/constants';
@@ -37,14 +42,34 @@ function subscribeToGameEvents(
       if (!connected) return;
       eventsHook.addEvent(event);
     });
-    const allEvents: GameEvent[] = (await emitAsync(socket, 'sync_all_game_events', gid)) as any;
-    eventsHook.setEvents(allEvents);
+    socket.on('game_presence', (event: any) => {
+      if (!connected) return;
+      eventsHook.addPresenceEvent(event);
+    });
+    const syncRequest: SyncAllGameEventsRequest = {gid, reducer: 'fencing'};
+    const {events, presence}: SyncAllGameEventsResponse = (await emitAsync(
+      socket,
+      'sync_all_game_events',
+      syncRequest
+    )) as any;
+    eventsHook.setEvents(events);
+    presence.forEach((event) => eventsHook.addPresenceEvent(event));
 
     connected = true;
   }
+  // after a reconnect, only fetch the events sent while we were disconnected
+  async function rejoinAndSyncMissed() {
+    if (!socket || !connected) return;
+    await emitAsync(socket, 'join_game', gid);
+    const syncRequest: SyncGameEventsSinceRequest = {gid, afterSeq: eventsHook.getLastEventSeq()};
+    const missedEvents: GameEvent[] = (await emitAsync(socket, 'sync_game_events_since', syncRequest)) as any;
+    eventsHook.addMissedEvents(missedEvents);
+  }
+  socket?.on('connect', rejoinAndSyncMissed);
   function unsubscribe() {
     if (!socket) return;
     console.log('unsubscribing from game events...');
+    socket.off('connect', rejoinAndSyncMissed);
     emitAsync(socket, 'leave_game', gid);
   }
   const syncPromise = joinAndSync();
@@ -77,7 +102,27 @@ export const Fencing: React.FC<{gid: string}> = (props) => {
   const socket = useSocket();
 
   const eventsHook = useGameEvents();
+  // cursors are relayed to the other players without being stored; they are applied locally right away
+  async function sendPresenceEvent(event: GameEvent) {
+    eventsHook.addPresenceEvent({...event, timestamp: eventsHook.getServerTime()});
+    if (socket) {
+      emitAsync(socket, 'game_presence', {gid, event: {...event, timestamp: {'.sv': 'timestamp'}}})
+        .then((response: any) => {
+          if (response?.error) {
+            console.error('Server rejected presence event', event, response.error);
+          }
+        })
+        .catch((e) => {
+          console.warn('Failed to send presence event', e);
+        });
+    }
+  }
+
   async function sendEvent(event: GameEvent) {
+    if (event.type === 'updateCursor') {
+      sendPresenceEvent(event);
+      return;
+    }
     (event as any).timestamp = {
       '.sv': 'timestamp',
     };
@@ -85,7 +130,17 @@ export const Fencing: React.FC<{gid: string}> = (props) => {
     console.log('sending event', socket, event);
     eventsHook.addOptimisticEvent(event);
     if (socket) {
-      emitAsync(socket, 'game_event', {gid, event});
+      // retrying is safe, as the server dedupes game events on event.id
+      emitAsyncWithRetry(socket, {}, 'game_event', {gid, event})
+        .then((response: any) => {
+          if (response?.error) {
+            console.error('Server rejected event', event, response.error);
+            eventsHook.removeOptimisticEvent(event);
+          }
+        })
+        .catch((e) => {
+          console.warn('Failed to send event', e);
+        });
     } else {
       console.warn('Cannot send event; not connected to server');
     }
@@ -8,8 +8,12 @@ export interface GameEventsHook {
   gameState: GameState;
   setEvents(gameEvents: GameEvent[]): void;
   addEvent(gameEvent: GameEvent): void;
+  addMissedEvents(gameEvents: GameEvent[]): void;
   addOptimisticEvent(gameEvent: GameEvent): void;
+  removeOptimisticEvent(gameEvent: GameEvent): void;
+  addPresenceEvent(gameEvent: GameEvent): void;
   getServerTime(): number;
+  getLastEventSeq(): number;
 }
 
 const makeHistoryWrappper = (events: GameEvent[]): HistoryWrapper => {
@@ -36,12 +40,27 @@ export const useGameEvents = (): GameEventsHook => {
       historyWrapperRef.current.addEvent(event);
       setVersion((version) => version + 1);
     },
+    addMissedEvents(events) {
+      historyWrapperRef.current.mergeEvents(events);
+      setVersion((version) => version + 1);
+    },
     addOptimisticEvent(event) {
       historyWrapperRef.current.addOptimisticEvent(event);
       setVersion((version) => version + 1);
     },
+    removeOptimisticEvent(event) {
+      historyWrapperRef.current.removeOptimisticEvent(event);
+      setVersion((version) => version + 1);
+    },
+    addPresenceEvent(event) {
+      historyWrapperRef.current.addPresenceEvent(event);
+      setVersion((version) => version + 1);
+    },
     getServerTime() {
       return Date.now() + serverTimeOffsetRef.current;
     },
+    getLastEventSeq() {
+      return historyWrapperRef.current.lastEventSeq;
+    },
   };
 };
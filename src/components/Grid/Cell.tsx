@@ -204,6 +204,7 @@ export default class Cell extends React.Component<Props> {
       good,
       revealed,
       pencil,
+      errata,
       value,
       myColor,
       onClick,
@@ -248,6 +249,7 @@ export default class Cell extends React.Component<Props> {
             good,
             revealed,
             pencil,
+            errata,
             frozen,
           })}
           style={style}
@@ -4,6 +4,7 @@ import {PuzzleJson, PuzzleStatsJson, ListPuzzleRequestFilters} from '../../share
 import {fetchPuzzleList} from '../../api/puzzle_list';
 import './css/puzzleList.css';
 import Entry, {EntryProps} from './Entry';
+import TagChips from './TagChips';
 
 interface PuzzleStatuses {
   [pid: string]: 'solved' | 'started';
@@ -18,13 +19,15 @@ interface NewPuzzleListProps {
   puzzleStatuses: PuzzleStatuses;
   uploadedPuzzles: number;
   fencing?: boolean;
+  onChangeTags?: (tags: string[]) => void;
 }
 
 const NewPuzzleList: React.FC<NewPuzzleListProps> = (props) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const [loading, setLoading] = useState<boolean>(false);
   const [fullyLoaded, setFullyLoaded] = useState<boolean>(false);
-  const [page, setPage] = useState<number>(0);
+  // the position after the puzzles fetched so far; undefined before the first page
+  const [cursor, setCursor] = useState<string | undefined>(undefined);
   const pageSize = 50;
   const [puzzles, setPuzzles] = useState<
     {
@@ -48,15 +51,15 @@ const NewPuzzleList: React.FC<NewPuzzleListProps> = (props) => {
           content: PuzzleJson;
           stats: PuzzleStatsJson;
         }[],
-        currentPage: number
+        currentCursor: string | undefined
       ) => {
         if (loading) return;
         setLoading(true);
-        const nextPage = await fetchPuzzleList({page: currentPage, pageSize, filter: props.filter});
+        const nextPage = await fetchPuzzleList({cursor: currentCursor, pageSize, filter: props.filter});
         setPuzzles([...currentPuzzles, ...nextPage.puzzles]);
-        setPage(currentPage + 1);
+        setCursor(nextPage.nextCursor ?? undefined);
         setLoading(false);
-        setFullyLoaded(_.size(nextPage.puzzles) < pageSize);
+        setFullyLoaded(!nextPage.nextCursor);
       },
       500,
       {trailing: true}
@@ -66,13 +69,13 @@ const NewPuzzleList: React.FC<NewPuzzleListProps> = (props) => {
   useEffect(() => {
     // it is debatable if we want to blank out the current puzzles here or not,
     // for now we only change the puzzles when the reload happens.
-    fetchMore([], 0);
+    fetchMore([], undefined);
   }, [JSON.stringify(props.filter), props.uploadedPuzzles]);
 
   const handleScroll = async () => {
     if (fullyLoaded) return;
     if (fullyScrolled()) {
-      await fetchMore(puzzles, page);
+      await fetchMore(puzzles, cursor);
     }
   };
   const handleTouchEnd = async () => {
@@ -116,6 +119,7 @@ const NewPuzzleList: React.FC<NewPuzzleListProps> = (props) => {
       onScroll={handleScroll}
       onTouchEnd={handleTouchEnd}
     >
+      {props.onChangeTags && <TagChips tags={props.filter.tags ?? []} onChange={props.onChangeTags} />}
       {puzzleData.map(({entryProps}, i) => (
         <div className="entry--container" key={i}>
           <Entry {...entryProps} />
@@ -132,7 +132,10 @@ export default class PuzzleList extends PureComponent {
   render() {
     const filter = {
       nameOrTitleFilter: this.props.search,
+      searchField: this.props.searchField,
       sizeFilter: this.props.sizeFilter,
+      tags: this.props.tags,
+      sort: this.props.sort || undefined,
     };
     return (
       <NewPuzzleList
@@ -141,6 +144,7 @@ export default class PuzzleList extends PureComponent {
         statusFilter={this.props.statusFilter}
         puzzleStatuses={this.puzzleStatuses}
         uploadedPuzzles={this.props.uploadedPuzzles}
+        onChangeTags={this.props.onChangeTags}
       />
     );
   }
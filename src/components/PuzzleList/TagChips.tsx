@@ -0,0 +1,62 @@
+import _ from 'lodash';
+import React, {useEffect, useState} from 'react';
+import {Chip, makeStyles} from '@material-ui/core';
+import {fetchPopularTags} from '../../api/puzzle_list';
+
+const useStyles = makeStyles({
+  container: {
+    flexBasis: '100%',
+    display: 'flex',
+    flexWrap: 'wrap',
+    padding: '15px 25px 0',
+  },
+  chip: {
+    margin: 4,
+  },
+});
+
+interface TagChipsProps {
+  tags: string[]; // the selected tags
+  onChange: (tags: string[]) => void;
+}
+
+/**
+ * The most used tags, which filter the puzzle list when selected.
+ * Selected tags stay listed even if they are no longer among the most used
+ */
+const TagChips: React.FC<TagChipsProps> = (props) => {
+  const classes = useStyles();
+  const [popularTags, setPopularTags] = useState<string[]>([]);
+
+  useEffect(() => {
+    fetchPopularTags()
+      .then(({tags}) => setPopularTags(_.map(tags, 'tag')))
+      .catch(() => {}); // the list still works without the chips
+  }, []);
+
+  const toggleTag = (tag: string) => {
+    props.onChange(props.tags.includes(tag) ? _.without(props.tags, tag) : [...props.tags, tag]);
+  };
+
+  const tags = _.uniq([...props.tags, ...popularTags]);
+  if (tags.length === 0) {
+    return null;
+  }
+  return (
+    <div className={classes.container}>
+      {tags.map((tag) => (
+        <Chip
+          key={tag}
+          className={classes.chip}
+          size="small"
+          label={tag}
+          clickable
+          color={props.tags.includes(tag) ? 'primary' : 'default'}
+          onClick={() => toggleTag(tag)}
+        />
+      ))}
+    </div>
+  );
+};
+
+export default TagChips;
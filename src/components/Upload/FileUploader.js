@@ -8,6 +8,7 @@ import swal from '@sweetalert/with-react';
 import {hasShape} from '../../lib/jsUtils';
 import PUZtoJSON from '../../lib/converter/PUZtoJSON';
 import iPUZtoJSON from '../../lib/converter/iPUZtoJSON';
+import JPZtoJSON from '../../lib/converter/JPZtoJSON';
 import fileTypeGuesser from '../../lib/fileTypeGuesser';
 
 class UnknownFileTypeError extends Error {
@@ -21,17 +22,6 @@ class UnknownFileTypeError extends Error {
   }
 }
 
-class UnsupportedFileTypeError extends Error {
-  constructor(fileType) {
-    const title = `Unsupported file type: .${fileType}`;
-    super(title);
-    this.errorType = 'UnsupportedFileTypeError';
-    this.errorTitle = title;
-    this.errorText = 'The uploaded file is not currently supported';
-    this.errorIcon = 'warning';
-  }
-}
-
 export default class FileUploader extends Component {
   validPuzzle(puzzle) {
     const shape = {
@@ -89,13 +79,27 @@ export default class FileUploader extends Component {
     return result;
   }
 
+  convertJPZ(readerResult) {
+    const {grid, info, circles, shades, across, down} = JPZtoJSON(readerResult);
+
+    const result = {
+      grid,
+      circles,
+      shades,
+      info,
+      clues: {across, down},
+    };
+
+    return result;
+  }
+
   attemptPuzzleConversion(readerResult, fileType) {
     if (fileType === 'puz') {
       return this.convertPUZ(readerResult);
     } else if (fileType === 'ipuz') {
       return this.convertIPUZ(readerResult);
     } else if (fileType === 'jpz') {
-      throw new UnsupportedFileTypeError(fileType);
+      return this.convertJPZ(readerResult);
     } else {
       const guessedFileType = fileTypeGuesser(readerResult);
       if (!guessedFileType) {
@@ -155,7 +159,7 @@ export default class FileUploader extends Component {
         <div className={`file-uploader--wrapper ${v2 ? 'v2' : ''}`}>
           <div className="file-uploader--box">
             <MdFileUpload className="file-uploader--box--icon" />
-            Import .puz or .ipuz file
+            Import .puz, .ipuz or .jpz file
           </div>
         </div>
       </Dropzone>
@@ -34,16 +34,27 @@ export default class Upload extends Component {
     // store in both firebase & pg
     actions.createPuzzle(puzzle, (pid) => {
       this.setState({puzzle: null});
-      this.setState({
-        recentUnlistedPid: isPublic ? undefined : pid,
-      });
+      this.upload(puzzle, pid, isPublic);
+    });
+  };
 
-      createNewPuzzle(puzzle, pid, {
-        isPublic,
+  upload = (puzzle, pid, isPublic, allowDuplicate = false) => {
+    createNewPuzzle(puzzle, pid, {
+      isPublic,
+      allowDuplicate,
+    })
+      .then((response) => {
+        if (response.duplicate) {
+          this.renderDuplicateModal(puzzle, pid, isPublic, response.pid);
+        } else {
+          // the server's pid, which is where the puzzle was actually stored
+          this.setState(
+            {recentUnlistedPid: isPublic ? undefined : response.pid},
+            this.renderUploadSuccessModal
+          );
+        }
       })
-        .then(this.renderUploadSuccessModal)
-        .catch(this.renderUploadFailModal);
-    });
+      .catch(this.renderUploadFailModal);
   };
 
   fail = () => {
@@ -121,6 +132,44 @@ export default class Upload extends Component {
     }
   };
 
+  // the server found the same puzzle already public, and uploaded nothing
+  renderDuplicateModal = (puzzle, pid, isPublic, duplicatePid) => {
+    swal.close();
+    const url = `/beta/play/${duplicatePid}${this.props.fencing ? '?fencing=1' : ''}`;
+    swal({
+      title: 'Already Uploaded',
+      icon: 'info',
+      buttons: {
+        uploadAnyway: {
+          text: 'Upload anyway',
+          value: 'uploadAnyway',
+          closeModal: false,
+        },
+        open: {
+          text: 'Open it',
+          value: 'open',
+        },
+      },
+      content: (
+        <div className="swal-text swal-text--no-margin swal-text--text-align-center">
+          <p style={{marginTop: 10, marginBottom: 10}}>
+            This puzzle is already on the home page, at{' '}
+            <a href={url} style={{wordBreak: 'break-all'}}>
+              {url}
+            </a>
+            . Play it there to keep its solves together, or upload your own copy.
+          </p>
+        </div>
+      ),
+    }).then((value) => {
+      if (value === 'open') {
+        window.location.href = url;
+      } else if (value === 'uploadAnyway') {
+        this.upload(puzzle, pid, isPublic, true);
+      }
+    });
+  };
+
   renderUploadFailModal = (err) => {
     swal.close();
     swal({
@@ -130,6 +179,13 @@ export default class Upload extends Component {
         <div className="swal-text swal-text--no-margin swal-text--text-align-center">
           <div>Upload failed. Error message:</div>
           <i>{err?.message ? err.message : 'Unknown error'}</i>
+          {err?.problems && (
+            <ul className="upload--problems">
+              {err.problems.map((problem, i) => (
+                <li key={i}>{problem}</li>
+              ))}
+            </ul>
+          )}
         </div>
       ),
     });
@@ -13,6 +13,13 @@ function LogIn({user, style}) {
   if (!user.attached) {
     return null;
   }
+  if (user.account) {
+    return (
+      <div className="nav--right" style={style}>
+        <Link to="/account">{user.account.username}</Link>
+      </div>
+    );
+  }
   if (user.fb) {
     // for now return a simple "logged in"
     return (
@@ -33,14 +40,9 @@ function LogIn({user, style}) {
   }
   return (
     <div className="nav--right" style={style}>
-      <div
-        className="nav--login"
-        onClick={() => {
-          user.logIn();
-        }}
-      >
+      <Link className="nav--login" to="/account">
         Log in
-      </div>
+      </Link>
     </div>
   );
 }
@@ -3,15 +3,19 @@ import classnames from 'classnames';
 import ReactDOM from 'react-dom';
 import React from 'react';
 import useMediaQuery from '@material-ui/core/useMediaQuery';
+import swal from '@sweetalert/with-react';
 
 import {BrowserRouter as Router, Route, Switch} from 'react-router-dom';
 import {isMobile} from './lib/jsUtils';
 import {
   Account,
   Battle,
+  Collection,
+  Collections,
   Compose,
   Composition,
   Game,
+  MyPuzzles,
   Play,
   Replay,
   Replays,
@@ -20,12 +24,22 @@ import {
   WrappedWelcome,
 } from './pages';
 import GlobalContext from './lib/GlobalContext';
+import {onLocalIdReset} from './api/auth';
 
 import './style.css';
 import './dark.css';
 
 const darkModeLocalStorageKey = 'dark_mode_preference';
 
+// the server refuses ids it can't verify as this browser's, see requestIdToken in src/api/auth.ts
+onLocalIdReset((previousId, reason) => {
+  swal({
+    title: 'You are playing under a new id',
+    text: `The server refused the id of this browser (${reason}), so the games played as ${previousId} won't show in its history.`,
+    icon: 'info',
+  });
+});
+
 const Root = () => {
   const urlDarkMode = window.location.search.indexOf('dark') !== -1;
   const savedDarkModePreference = (localStorage && localStorage.getItem(darkModeLocalStorageKey)) || '0';
@@ -76,6 +90,9 @@ const Root = () => {
             <Route exact path="/beta/battle/:bid" component={Battle} />
             <Route exact path="/beta/play/:pid" component={Play} />
             <Route path="/account" component={Account} />
+            <Route exact path="/my-puzzles" component={MyPuzzles} />
+            <Route exact path="/collections" component={Collections} />
+            <Route exact path="/collections/:collectionId" component={Collection} />
             <Route exact path="/compose" component={Compose} />
             <Route exact path="/composition/:cid" component={Composition} />
             <Route exact path="/fencing/:gid" component={Fencing} />
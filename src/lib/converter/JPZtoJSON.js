@@ -0,0 +1,132 @@
+import pako from 'pako';
+
+// Converts a .jpz file, the XML of Crossword Compiler (crossword-compiler-applet), which is often zipped
+
+const ZIP_MAGIC_HEADER = 0x04034b50;
+const ZIP_END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP_CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+
+// the contents of the first file of a zip archive, found through its central directory
+// (the sizes in the local file headers may be left out)
+function unzipFirstFile(buffer) {
+  const view = new DataView(buffer);
+  let end = buffer.byteLength - 22;
+  while (end >= 0 && view.getUint32(end, true) !== ZIP_END_OF_CENTRAL_DIRECTORY) {
+    end -= 1;
+  }
+  if (end < 0) {
+    throw new Error('Invalid .jpz file: the zip archive has no central directory');
+  }
+  const numEntries = view.getUint16(end + 10, true);
+  let entry = view.getUint32(end + 16, true);
+  for (let i = 0; i < numEntries; i++) {
+    if (view.getUint32(entry, true) !== ZIP_CENTRAL_DIRECTORY_HEADER) {
+      break;
+    }
+    const method = view.getUint16(entry + 10, true);
+    const compressedSize = view.getUint32(entry + 20, true);
+    const nameLength = view.getUint16(entry + 28, true);
+    const extraLength = view.getUint16(entry + 30, true);
+    const commentLength = view.getUint16(entry + 32, true);
+    const localHeader = view.getUint32(entry + 42, true);
+    const name = new TextDecoder().decode(new Uint8Array(buffer, entry + 46, nameLength));
+    if (!name.endsWith('/')) {
+      const dataStart =
+        localHeader + 30 + view.getUint16(localHeader + 26, true) + view.getUint16(localHeader + 28, true);
+      const data = new Uint8Array(buffer, dataStart, compressedSize);
+      if (method === 0) {
+        return data;
+      }
+      if (method === 8) {
+        return pako.inflateRaw(data);
+      }
+      throw new Error(`Invalid .jpz file: unsupported zip compression method ${method}`);
+    }
+    entry += 46 + nameLength + extraLength + commentLength;
+  }
+  throw new Error('Invalid .jpz file: the zip archive is empty');
+}
+
+// the elements named tagName under element, whatever their namespace
+function getElements(element, tagName) {
+  return Array.from(element.getElementsByTagNameNS('*', tagName));
+}
+
+function getText(element, tagName) {
+  const [child] = getElements(element, tagName);
+  return child ? child.textContent.trim() : '';
+}
+
+function convertClues(cluesElement) {
+  const clues = [];
+  getElements(cluesElement, 'clue').forEach((clue) => {
+    clues[parseInt(clue.getAttribute('number'), 10)] = clue.textContent.trim();
+  });
+  return clues;
+}
+
+export default function JPZtoJSON(readerResult) {
+  const bytes = new Uint8Array(readerResult);
+  const isZipped = new DataView(readerResult).getUint32(0, true) === ZIP_MAGIC_HEADER;
+  const xml = new TextDecoder().decode(isZipped ? unzipFirstFile(readerResult) : bytes);
+  const doc = new DOMParser().parseFromString(xml, 'text/xml');
+  if (getElements(doc, 'parsererror').length > 0) {
+    throw new Error('Invalid .jpz file: the XML could not be parsed');
+  }
+  const [gridElement] = getElements(doc, 'grid');
+  if (!gridElement) {
+    throw new Error('Invalid .jpz file: no crossword grid was found');
+  }
+
+  const width = parseInt(gridElement.getAttribute('width'), 10);
+  const height = parseInt(gridElement.getAttribute('height'), 10);
+  // cells are black unless listed with a solution
+  const grid = Array.from({length: height}, () => Array(width).fill('.'));
+  const circles = [];
+  const shades = [];
+  getElements(gridElement, 'cell').forEach((cell) => {
+    // x and y start at 1
+    const c = parseInt(cell.getAttribute('x'), 10) - 1;
+    const r = parseInt(cell.getAttribute('y'), 10) - 1;
+    const type = cell.getAttribute('type');
+    if (!(r >= 0 && r < height && c >= 0 && c < width) || type === 'block' || type === 'void') {
+      return;
+    }
+    grid[r][c] = cell.getAttribute('solution') || '.';
+    if (cell.getAttribute('background-shape') === 'circle') {
+      circles.push(r * width + c);
+    }
+    if (cell.getAttribute('background-color')) {
+      shades.push(r * width + c);
+    }
+  });
+
+  const [metadata] = getElements(doc, 'metadata');
+  const info = {
+    type: grid.length > 10 ? 'Daily Puzzle' : 'Mini Puzzle',
+    title: metadata ? getText(metadata, 'title') : '',
+    author: metadata ? getText(metadata, 'creator') : '',
+    description: metadata ? getText(metadata, 'description') : '',
+  };
+
+  // the title of each list of clues says its direction; otherwise the across clues come first
+  let across = [];
+  let down = [];
+  getElements(doc, 'clues').forEach((cluesElement, i) => {
+    const title = getText(cluesElement, 'title').toLowerCase();
+    if (title.includes('down') || (!title.includes('across') && i === 1)) {
+      down = convertClues(cluesElement);
+    } else {
+      across = convertClues(cluesElement);
+    }
+  });
+
+  return {
+    grid,
+    info,
+    circles,
+    shades,
+    across,
+    down,
+  };
+}
@@ -0,0 +1,118 @@
+import pako from 'pako';
+import {TextDecoder, TextEncoder} from 'util';
+import JPZtoJSON from './JPZtoJSON';
+
+// jsdom lacks TextDecoder, which browsers have
+global.TextDecoder = global.TextDecoder || TextDecoder;
+
+const JPZ = `<?xml version="1.0" encoding="UTF-8"?>
+<crossword-compiler-applet xmlns="http://crossword.info/xml/crossword-compiler-applet">
+  <rectangular-puzzle xmlns="http://crossword.info/xml/rectangular-puzzle">
+    <metadata>
+      <title>Tiny</title>
+      <creator>Setter</creator>
+      <description>A test puzzle</description>
+    </metadata>
+    <crossword>
+      <grid width="2" height="2">
+        <cell x="1" y="1" solution="A" number="1" background-shape="circle"/>
+        <cell x="2" y="1" solution="B" number="2"/>
+        <cell x="1" y="2" solution="C" background-color="#CCCCCC"/>
+        <cell x="2" y="2" type="block"/>
+      </grid>
+      <clues ordering="normal"><title><b>Down</b></title><clue word="2" number="1">Ac</clue></clues>
+      <clues ordering="normal"><title><b>Across</b></title><clue word="1" number="1">Ab</clue></clues>
+    </crossword>
+  </rectangular-puzzle>
+</crossword-compiler-applet>`;
+
+const toArrayBuffer = (bytes) => bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+
+// a zip archive of a directory and a deflated file in it, listed in its central directory.
+// Like some zips, the local file header leaves out the sizes (and the crc, which isn't checked)
+function zip(name, text) {
+  const nameBytes = new TextEncoder().encode(name);
+  const data = new TextEncoder().encode(text);
+  const compressed = pako.deflateRaw(data);
+  const entries = [
+    {name: new TextEncoder().encode('puzzle/'), method: 0, data: new Uint8Array(0), size: 0},
+    {name: nameBytes, method: 8, data: compressed, size: data.length},
+  ];
+  const parts = [];
+  const centralDirectory = [];
+  let offset = 0;
+  entries.forEach((entry) => {
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(8, entry.method, true);
+    local.setUint16(26, entry.name.length, true);
+    parts.push(new Uint8Array(local.buffer), entry.name, entry.data);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(10, entry.method, true);
+    central.setUint32(20, entry.data.length, true);
+    central.setUint32(24, entry.size, true);
+    central.setUint16(28, entry.name.length, true);
+    central.setUint32(42, offset, true);
+    centralDirectory.push(new Uint8Array(central.buffer), entry.name);
+    offset += 30 + entry.name.length + entry.data.length;
+  });
+  const centralDirectorySize = centralDirectory.reduce((size, part) => size + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralDirectorySize, true);
+  end.setUint32(16, offset, true);
+  return new Blob([...parts, ...centralDirectory, new Uint8Array(end.buffer)]);
+}
+
+const readBlob = (blob) =>
+  new Promise((resolve) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result);
+    reader.readAsArrayBuffer(blob);
+  });
+
+describe('JPZtoJSON', () => {
+  it('converts the grid, info and clues of a .jpz file', () => {
+    const puzzle = JPZtoJSON(toArrayBuffer(new TextEncoder().encode(JPZ)));
+    expect(puzzle.grid).toEqual([
+      ['A', 'B'],
+      ['C', '.'],
+    ]);
+    expect(puzzle.info).toEqual({
+      type: 'Mini Puzzle',
+      title: 'Tiny',
+      author: 'Setter',
+      description: 'A test puzzle',
+    });
+    expect(puzzle.circles).toEqual([0]);
+    expect(puzzle.shades).toEqual([2]);
+    expect(puzzle.across[1]).toBe('Ab');
+    expect(puzzle.down[1]).toBe('Ac');
+  });
+
+  it('converts zipped .jpz files', async () => {
+    const puzzle = JPZtoJSON(await readBlob(zip('puzzle/tiny.xml', JPZ)));
+    expect(puzzle.grid).toEqual([
+      ['A', 'B'],
+      ['C', '.'],
+    ]);
+    expect(puzzle.info.title).toBe('Tiny');
+  });
+
+  it('takes the first list of clues as across when they have no titles', () => {
+    const untitled = JPZ.replace(/<title><b>\w+<\/b><\/title>/g, '');
+    const puzzle = JPZtoJSON(toArrayBuffer(new TextEncoder().encode(untitled)));
+    expect(puzzle.across[1]).toBe('Ac');
+    expect(puzzle.down[1]).toBe('Ab');
+  });
+
+  it('rejects files that are not crosswords', () => {
+    const read = (text) => JPZtoJSON(toArrayBuffer(new TextEncoder().encode(text)));
+    expect(() => read('<crossword>')).toThrow('Invalid .jpz file');
+    expect(() => read('<crossword></crossword>')).toThrow('no crossword grid was found');
+  });
+});
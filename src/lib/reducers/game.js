@@ -166,6 +166,7 @@ const reducers = {
             value,
             bad: false,
             pencil,
+            errata: false,
             user_id: value ? params.id : '',
           },
         }),
@@ -223,6 +224,7 @@ const reducers = {
               good: true,
               pencil: false,
               revealed: cell.revealed || cell.value !== solution[i][j],
+              errata: false,
               user_id: cell.value === solution[i][j] ? cell.user_id : undefined,
             }
           : cell
@@ -261,6 +263,35 @@ const reducers = {
     };
   },
 
+  // sent by the server once the puzzle is fixed. The cells whose answer changed are no longer known to be good
+  // or bad, and are marked as errata until filled in again
+  updatePuzzle: (game, params) => {
+    if (game.solved) {
+      return game;
+    }
+    const {info = game.info, solution, clues = game.clues} = params;
+    const grid = game.grid.map((row, i) =>
+      row.map((cell, j) =>
+        solution[i][j] !== game.solution[i][j]
+          ? {
+              ...cell,
+              good: false,
+              bad: false,
+              revealed: false,
+              errata: true,
+            }
+          : cell
+      )
+    );
+    return {
+      ...game,
+      info,
+      solution,
+      clues,
+      grid,
+    };
+  },
+
   updateClock: (game, params) => {
     const {action} = params;
     let {clock} = game;
@@ -367,7 +398,8 @@ export const reduce = (game, action, options = {}) => {
       (type === 'updateClock' && params && params.action === 'pause') || type === 'create' || game.solved;
     if (options.isOptimistic) {
       game = incrementOptimisticCounter(game);
-    } else {
+    } else if (!options.isPresence) {
+      // presence events (cursors and pings) are not stored, so they must not move the clock
       game = tick(game, timestamp, isPause);
     }
   } catch (e) {
@@ -2,6 +2,13 @@ import _ from 'lodash';
 import {reduce as gameReducer} from '../reducers/game';
 
 const MEMO_RATE = 10;
+// game events are retried for up to 15s (see emitAsyncWithRetry), so only give up on an optimistic event after that
+const OPTIMISTIC_EVENT_TIMEOUT = 20000;
+// pings are only drawn for 10s (see PING_TIMEOUT in Player.js), so there is no need to keep them longer
+const PRESENCE_PING_TIMEOUT = 10000;
+
+// events persisted by the server carry a strictly increasing per-game seq; older (firebase) events only have timestamps
+const eventOrder = (event) => event.seq ?? event.timestamp;
 
 export default class HistoryWrapper {
   constructor(history = [], reducer = gameReducer) {
@@ -9,10 +16,11 @@ export default class HistoryWrapper {
     this.reducer = reducer;
     this.history = [];
     this.optimisticEvents = [];
+    this.presenceEvents = [];
     this.memo = [];
     this.createEvent = null;
     history.forEach((event) => {
-      if (event.type === 'create') {
+      if (event.type === 'create' || event.type === 'snapshot') {
         this.setCreateEvent(event);
       } else {
         this.addEvent(event);
@@ -28,6 +36,15 @@ export default class HistoryWrapper {
     return !!this.createEvent;
   }
 
+  get lastEventSeq() {
+    return _.last(this.history)?.seq ?? this.createEvent?.seq ?? 0;
+  }
+
+  // the server may replace the create event and a prefix of the history with a snapshot of the reduced state
+  get isSnapshot() {
+    return this.createEvent?.type === 'snapshot';
+  }
+
   initializeMemo() {
     if (!this.createEvent) {
       return;
@@ -35,7 +52,7 @@ export default class HistoryWrapper {
     this.memo = [
       {
         index: -1,
-        game: this.reduce(null, this.createEvent),
+        game: this.isSnapshot ? this.createEvent.params.state : this.reduce(null, this.createEvent),
       },
     ];
 
@@ -66,6 +83,11 @@ export default class HistoryWrapper {
       game = this.reduce(game, event);
     }
     if (optimistic) {
+      for (const event of this.presenceEvents) {
+        game = this.reduce(game, event, {
+          isPresence: true,
+        });
+      }
       for (const event of this.optimisticEvents) {
         game = this.reduce(game, event, {
           isOptimistic: true,
@@ -90,15 +112,19 @@ export default class HistoryWrapper {
 
   setCreateEvent(event) {
     this.createEvent = event;
-    event.gameTimestamp = 0;
+    event.gameTimestamp = this.isSnapshot ? event.params.state?.clock?.trueTotalTime ?? 0 : 0;
     this.initializeMemo();
   }
 
   addEvent(event) {
+    if (this.isSnapshot && eventOrder(event) <= eventOrder(this.createEvent)) {
+      // already folded into the snapshot
+      return;
+    }
     window.timeStampOffset = event.timestamp - Date.now();
     this.optimisticEvents = this.optimisticEvents.filter((ev) => ev.id !== event.id);
     // we must support retroactive updates to the event log
-    const insertPoint = _.sortedLastIndexBy(this.history, event, (event) => event.timestamp);
+    const insertPoint = _.sortedLastIndexBy(this.history, event, eventOrder);
     this.history.splice(insertPoint, 0, event);
     if (!this.createEvent) {
       return;
@@ -117,6 +143,17 @@ export default class HistoryWrapper {
     }
   }
 
+  // merges in events missed while disconnected, skipping the ones already in the history
+  mergeEvents(events) {
+    const seenIds = new Set(this.history.map((event) => event.id));
+    events.forEach((event) => {
+      if (event.id && seenIds.has(event.id)) {
+        return;
+      }
+      this.addEvent(event);
+    });
+  }
+
   addOptimisticEvent(event) {
     event = {
       ...event,
@@ -130,10 +167,25 @@ export default class HistoryWrapper {
         window.socket.close();
         window.socket.open();
       }
-    }, 5000);
+    }, OPTIMISTIC_EVENT_TIMEOUT);
     this.optimisticEvents.push(event);
   }
 
+  // drops an optimistic event that the server rejected
+  removeOptimisticEvent(event) {
+    this.optimisticEvents = this.optimisticEvents.filter((ev) => ev.id !== event.id);
+  }
+
+  // cursors and pings are relayed by the server without being stored, so they are kept out of the history.
+  // only the latest cursor of each user is kept
+  addPresenceEvent(event) {
+    const isOutdated = (ev) =>
+      ev.type === 'updateCursor'
+        ? event.type === 'updateCursor' && ev.params.id === event.params.id
+        : ev.timestamp < event.timestamp - PRESENCE_PING_TIMEOUT;
+    this.presenceEvents = [...this.presenceEvents.filter((ev) => !isOutdated(ev)), event];
+  }
+
   clearOptimisticEvents() {
     this.optimisticEvents = [];
   }
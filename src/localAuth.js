@@ -1,4 +1,6 @@
 const idKey = 'dfac-id';
+const sessionTokenKey = 'dfac-session-token';
+const idTokenKey = 'dfac-id-token';
 
 function genId() {
   return Math.floor(Math.random() * 1000000000).toString(16);
@@ -26,4 +28,46 @@ function getLocalId() {
   return cachedId;
 }
 
+// used after logging in, to play as the id the account's history is kept under
+export function setLocalId(id) {
+  cachedId = id;
+  if (localStorage) {
+    localStorage.setItem(idKey, id);
+  }
+}
+
+// the id of an account can't be used once logged out, see authenticateSocket in server/model/user.ts
+export function resetLocalId() {
+  setLocalId(genId());
+}
+
+// the token that proves this browser plays as its local id, see getIdToken in src/api/auth.ts
+export function getStoredIdToken() {
+  const stored = localStorage && JSON.parse(localStorage.getItem(idTokenKey) || 'null');
+  return stored && stored.id === getLocalId() ? stored.token : null;
+}
+
+export function setIdToken(id, token) {
+  if (!localStorage) return;
+  if (token) {
+    localStorage.setItem(idTokenKey, JSON.stringify({id, token}));
+  } else {
+    localStorage.removeItem(idTokenKey);
+  }
+}
+
+// the token of the account session, see src/api/auth.ts
+export function getSessionToken() {
+  return localStorage ? localStorage.getItem(sessionTokenKey) : null;
+}
+
+export function setSessionToken(token) {
+  if (!localStorage) return;
+  if (token) {
+    localStorage.setItem(sessionTokenKey, token);
+  } else {
+    localStorage.removeItem(sessionTokenKey);
+  }
+}
+
 export default getLocalId;
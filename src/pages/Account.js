@@ -1,17 +1,76 @@
 import './css/account.css';
 
-import React, {Component} from 'react';
+import React, {Component, useState} from 'react';
+import {Link} from 'react-router-dom';
 import Nav from '../components/common/Nav';
+import {getUser} from '../store/user';
 
 function AccountHistory() {
   return <div className="account-history">Account History</div>;
 }
 
+// signing up links the id of this browser, so the games played so far stay in the history
+function AccountLogIn({user}) {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState(null);
+
+  const submit = (action) => async (e) => {
+    e.preventDefault();
+    setError(null);
+    try {
+      await action(username, password);
+    } catch (err) {
+      setError(err.message);
+    }
+  };
+
+  return (
+    <form className="account--login" onSubmit={submit(user.logInWithPassword.bind(user))}>
+      <input
+        className="account--login--input"
+        placeholder="Username"
+        autoComplete="username"
+        value={username}
+        onChange={(e) => setUsername(e.target.value)}
+      />
+      <input
+        className="account--login--input"
+        type="password"
+        placeholder="Password"
+        autoComplete="current-password"
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+      />
+      <div className="account--login--buttons">
+        <button type="submit">Log in</button>
+        <button type="button" onClick={submit(user.signUp.bind(user))}>
+          Sign up
+        </button>
+      </div>
+      {error && <div className="account--login--error">{error}</div>}
+    </form>
+  );
+}
+
+function AccountSession({user}) {
+  return (
+    <div className="account--session">
+      Logged in as <b>{user.account.username}</b>
+      <Link to="/my-puzzles">My puzzles</Link>
+      <button type="button" onClick={() => user.logOut()}>
+        Log out
+      </button>
+    </div>
+  );
+}
+
 export default class Account extends Component {
   constructor() {
     super();
     this.state = {
       panel: null,
+      account: null,
     };
 
     this.panels = {
@@ -22,12 +81,34 @@ export default class Account extends Component {
     };
   }
 
+  componentDidMount() {
+    this.user = getUser();
+    this.user.onAuth(this.handleAuth);
+  }
+
+  componentWillUnmount() {
+    this.user.offAuth(this.handleAuth);
+  }
+
+  handleAuth = () => {
+    this.setState({account: this.user.account});
+  };
+
   selectPanel(panel) {
     this.setState({
       panel,
     });
   }
 
+  renderSession() {
+    const {account} = this.state;
+    if (!this.user) return null;
+    if (account) {
+      return <AccountSession user={this.user} />;
+    }
+    return <AccountLogIn user={this.user} />;
+  }
+
   renderSidebar() {
     const {panel: selectedPanel} = this.state;
     return (
@@ -55,6 +136,7 @@ export default class Account extends Component {
       <div className="account">
         <Nav />
         <div className="account--title">Your Account</div>
+        {this.renderSession()}
         <div className="account--main">
           <div className="account--left">{this.renderSidebar()}</div>
           <div className="account--right">{this.renderPanel()}</div>
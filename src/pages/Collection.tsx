@@ -0,0 +1,92 @@
+import React, {useEffect, useState} from 'react';
+import Flex from 'react-flexview';
+import {Helmet} from 'react-helmet';
+import {RouteComponentProps, useHistory} from 'react-router-dom';
+import {makeStyles} from '@material-ui/core';
+import {deleteCollection, fetchCollection} from '../api/collection';
+import {GetCollectionResponse} from '../shared/types';
+import {getUser} from '../store/user';
+import Nav from '../components/common/Nav';
+import Entry from '../components/PuzzleList/Entry';
+import '../components/PuzzleList/css/puzzleList.css';
+
+const useStyles = makeStyles({
+  header: {
+    textAlign: 'center',
+  },
+  error: {
+    textAlign: 'center',
+    color: 'red',
+  },
+  puzzles: {
+    display: 'flex',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+  },
+});
+
+/**
+ * The puzzles of a collection, in order; the account that created it can delete it from here
+ */
+const Collection: React.FC<RouteComponentProps<{collectionId: string}>> = (props) => {
+  const user = getUser();
+  const classes = useStyles();
+  const history = useHistory();
+  const {collectionId} = props.match.params;
+
+  const [collection, setCollection] = useState<GetCollectionResponse['collection'] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchCollection(collectionId)
+      .then(({collection: fetchedCollection}) => setCollection(fetchedCollection))
+      .catch((e) => setError(e.message));
+  }, [collectionId]);
+
+  const handleDelete = async () => {
+    // eslint-disable-next-line no-alert
+    if (!window.confirm(`Delete ${collection?.name}? Its puzzles are kept.`)) return;
+    try {
+      await deleteCollection(collectionId);
+      history.push('/collections');
+    } catch (e) {
+      setError(e.message);
+    }
+  };
+
+  return (
+    <Flex column className="replays">
+      <Nav hidden={false} v2 canLogin={false} divRef={null} linkStyle={null} mobile={null} />
+      <Helmet>
+        <title>{collection ? collection.name : 'Collection'}</title>
+      </Helmet>
+      <div>
+        <h2 className={classes.header}>{collection?.name}</h2>
+        {error && <div className={classes.error}>{error}</div>}
+        <div className={classes.puzzles}>
+          {collection?.puzzles.map((puzzle) => (
+            <div className="entry--container" key={puzzle.pid}>
+              <Entry
+                info={{type: puzzle.content.info.type!}}
+                title={puzzle.content.info.title}
+                author={puzzle.content.info.author}
+                pid={puzzle.pid}
+                stats={puzzle.stats}
+                status={undefined}
+              />
+            </div>
+          ))}
+        </div>
+        {collection && user.account?.uid === collection.uid && (
+          <div className={classes.header}>
+            <button type="button" onClick={handleDelete}>
+              Delete collection
+            </button>
+          </div>
+        )}
+      </div>
+    </Flex>
+  );
+};
+
+export default Collection;
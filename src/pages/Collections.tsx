@@ -0,0 +1,130 @@
+import React, {useEffect, useState} from 'react';
+import _ from 'lodash';
+import Flex from 'react-flexview';
+import {Helmet} from 'react-helmet';
+import {Link, useHistory} from 'react-router-dom';
+import {makeStyles} from '@material-ui/core';
+import {createCollection, fetchCollections} from '../api/collection';
+import {CollectionSummaryJson} from '../shared/types';
+import {getUser} from '../store/user';
+import Nav from '../components/common/Nav';
+
+const useStyles = makeStyles({
+  header: {
+    textAlign: 'center',
+  },
+  error: {
+    textAlign: 'center',
+    color: 'red',
+  },
+  form: {
+    display: 'flex',
+    flexDirection: 'column',
+    alignItems: 'center',
+    margin: 20,
+    '& > *': {
+      margin: 4,
+      width: 400,
+      maxWidth: '90vw',
+    },
+  },
+});
+
+/**
+ * Lists the collections (named lists of puzzles, e.g. a week of minis); logged in accounts can create them
+ */
+const Collections: React.FC<{}> = () => {
+  const user = getUser();
+  const classes = useStyles();
+  const history = useHistory();
+
+  const [account, setAccount] = useState(user.account);
+  const [collections, setCollections] = useState<CollectionSummaryJson[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [pids, setPids] = useState('');
+
+  useEffect(() => {
+    const handleAuth = () => setAccount(user.account);
+    user.onAuth(handleAuth);
+    return () => user.offAuth(handleAuth);
+  }, [user]);
+
+  useEffect(() => {
+    fetchCollections()
+      .then(({collections: allCollections}) => setCollections(allCollections))
+      .catch((e) => setError(e.message));
+  }, []);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const {collectionId} = await createCollection({name, pids: _.compact(pids.split(/[\s,]+/))});
+      history.push(`/collections/${collectionId}`);
+    } catch (err) {
+      setError(err.message);
+    }
+  };
+
+  const renderCreateForm = () => {
+    if (!account) {
+      return (
+        <div className={classes.header}>
+          <Link to="/account">Log in</Link> to create a collection
+        </div>
+      );
+    }
+    return (
+      <form className={classes.form} onSubmit={handleCreate}>
+        <input
+          type="text"
+          aria-label="Name"
+          placeholder="Name, e.g. A week of minis"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+        <textarea
+          aria-label="Puzzles"
+          placeholder="The ids of its puzzles, in order, separated by commas or spaces"
+          value={pids}
+          onChange={(e) => setPids(e.target.value)}
+        />
+        <button type="submit">Create collection</button>
+      </form>
+    );
+  };
+
+  return (
+    <Flex column className="replays">
+      <Nav hidden={false} v2 canLogin={false} divRef={null} linkStyle={null} mobile={null} />
+      <Helmet>
+        <title>Collections</title>
+      </Helmet>
+      <div>
+        <h2 className={classes.header}>Collections</h2>
+        {error && <div className={classes.error}>{error}</div>}
+        <table className="main-table">
+          <tbody>
+            <tr>
+              <th>Collection</th>
+              <th># puzzles</th>
+              <th>Created</th>
+            </tr>
+            {_.map(collections, (collection) => (
+              <tr key={collection.collectionId}>
+                <td>
+                  <Link to={`/collections/${collection.collectionId}`}>{collection.name}</Link>
+                </td>
+                <td>{collection.numPuzzles}</td>
+                <td>{new Date(collection.createdAt).toLocaleDateString()}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {renderCreateForm()}
+      </div>
+    </Flex>
+  );
+};
+
+export default Collections;
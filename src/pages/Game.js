@@ -131,6 +131,20 @@ export default class Game extends Component {
       this.handleChange();
       this.handleUpdate();
     });
+    this.gameModel.on('wsPresenceEvent', (event) => {
+      this.historyWrapper.addPresenceEvent(event);
+      this.handleUpdate();
+    });
+    this.gameModel.on('wsRejectedEvent', (event) => {
+      this.historyWrapper.removeOptimisticEvent(event);
+      this.handleChange();
+      this.handleUpdate();
+    });
+    this.gameModel.on('wsMissedEvents', (events) => {
+      this.historyWrapper.mergeEvents(events);
+      this.handleChange();
+      this.handleUpdate();
+    });
     this.gameModel.on('reconnect', () => {
       this.historyWrapper.clearOptimisticEvents();
       this.handleChange();
@@ -142,7 +156,7 @@ export default class Game extends Component {
         archived: true,
       });
     });
-    this.gameModel.attach();
+    this.gameModel.attach({compacted: true});
   }
 
   // TODO: combine this logic with the above...
@@ -196,7 +210,8 @@ export default class Game extends Component {
       const victoryMessage = `Team ${Number(team) + 1} [${winningPlayersString}] won! `;
       const timeMessage = `Time taken: ${Number((completedAt - startedAt) / 1000)} seconds.`;
 
-      this.gameModel.chat('BattleBot', null, victoryMessage + timeMessage);
+      // sent as this user, since only the server can send events without a sender
+      this.gameModel.chat('BattleBot', this.user.id, victoryMessage + timeMessage);
     }
   }
 
@@ -281,18 +296,12 @@ export default class Game extends Component {
     }
   );
 
-  handleChange = _.debounce(async ({isEdit = false} = {}) => {
+  // the server adds the game to the user's history on their first edit, and marks it solved on recordSolve
+  handleChange = _.debounce(async () => {
     if (!this.gameModel || !this.historyWrapper.ready) {
       return;
     }
 
-    if (isEdit) {
-      await this.user.joinGame(this.state.gid, {
-        pid: this.game.pid,
-        solved: false,
-        v2: true,
-      });
-    }
     if (this.game.solved) {
       if (this.lastRecordedSolve === this.state.gid) return;
       this.lastRecordedSolve = this.state.gid;
@@ -304,7 +313,6 @@ export default class Game extends Component {
       }
       // double log to postgres
       await recordSolve(this.game.pid, this.state.gid, this.game.clock.totalTime);
-      this.user.markSolved(this.state.gid);
       if (this.battleModel) {
         this.battleModel.setSolved(this.state.team);
       }
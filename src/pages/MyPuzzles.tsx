@@ -0,0 +1,152 @@
+import React, {useEffect, useState} from 'react';
+import _ from 'lodash';
+import Flex from 'react-flexview';
+import {Helmet} from 'react-helmet';
+import {Link} from 'react-router-dom';
+import {makeStyles} from '@material-ui/core';
+import {deletePuzzle, fetchUserPuzzles, updatePuzzle} from '../api/puzzle';
+import {ListUserPuzzlesResponse} from '../shared/types';
+import {getUser} from '../store/user';
+import Nav from '../components/common/Nav';
+
+const useStyles = makeStyles({
+  header: {
+    textAlign: 'center',
+  },
+  error: {
+    textAlign: 'center',
+    color: 'red',
+  },
+});
+
+type UserPuzzle = ListUserPuzzlesResponse['puzzles'][number];
+
+/**
+ * The puzzles uploaded by the logged in account, which can be unlisted, tagged or deleted from here
+ */
+const MyPuzzles: React.FC<{}> = () => {
+  const user = getUser();
+  const classes = useStyles();
+
+  const [account, setAccount] = useState(user.account);
+  const [puzzles, setPuzzles] = useState<UserPuzzle[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const handleAuth = () => setAccount(user.account);
+    user.onAuth(handleAuth);
+    return () => user.offAuth(handleAuth);
+  }, [user]);
+
+  useEffect(() => {
+    if (!account) return;
+    fetchUserPuzzles(account.uid)
+      .then(({puzzles: userPuzzles}) => setPuzzles(userPuzzles))
+      .catch((e) => setError(e.message));
+  }, [account]);
+
+  const handleTogglePublic = async (puzzle: UserPuzzle) => {
+    try {
+      await updatePuzzle(puzzle.pid, {isPublic: !puzzle.isPublic});
+      setPuzzles((current) =>
+        _.map(current, (p) => (p.pid === puzzle.pid ? {...p, isPublic: !puzzle.isPublic} : p))
+      );
+    } catch (e) {
+      setError(e.message);
+    }
+  };
+
+  // tags are edited as a comma separated list, saved once the input loses focus
+  const handleChangeTags = async (puzzle: UserPuzzle, value: string) => {
+    const tags = _.compact(value.split(',').map((tag) => tag.trim().toLowerCase()));
+    if (_.isEqual(tags, puzzle.tags)) return;
+    try {
+      await updatePuzzle(puzzle.pid, {tags});
+      setPuzzles((current) => _.map(current, (p) => (p.pid === puzzle.pid ? {...p, tags} : p)));
+    } catch (e) {
+      setError(e.message);
+    }
+  };
+
+  const handleDelete = async (puzzle: UserPuzzle) => {
+    // eslint-disable-next-line no-alert
+    if (!window.confirm(`Delete ${puzzle.content.info.title}? Its solves will be deleted too.`)) return;
+    try {
+      await deletePuzzle(puzzle.pid);
+      setPuzzles((current) => _.filter(current, (p) => p.pid !== puzzle.pid));
+    } catch (e) {
+      setError(e.message);
+    }
+  };
+
+  const renderContent = () => {
+    if (!account) {
+      return (
+        <div className={classes.header}>
+          <Link to="/account">Log in</Link> to see the puzzles you uploaded
+        </div>
+      );
+    }
+    return (
+      <table className="main-table">
+        <tbody>
+          <tr>
+            <th>Puzzle</th>
+            <th>Uploaded</th>
+            <th># solves</th>
+            <th>Listed</th>
+            <th>Tags</th>
+            <th>Delete</th>
+          </tr>
+          {_.map(puzzles, (puzzle) => (
+            <tr key={puzzle.pid}>
+              <td>
+                <Link to={`/beta/play/${puzzle.pid}`}>{puzzle.content.info.title}</Link>
+                {` (${puzzle.content.info.type || 'Puzzle'})`}
+              </td>
+              <td>{new Date(puzzle.uploadedAt).toLocaleDateString()}</td>
+              <td>{puzzle.stats.numSolves}</td>
+              <td>
+                <input
+                  type="checkbox"
+                  checked={puzzle.isPublic}
+                  onChange={() => handleTogglePublic(puzzle)}
+                />
+              </td>
+              <td>
+                <input
+                  type="text"
+                  aria-label="Tags"
+                  placeholder="e.g. themeless, beginner"
+                  defaultValue={puzzle.tags.join(', ')}
+                  onBlur={(e) => handleChangeTags(puzzle, e.target.value)}
+                />
+              </td>
+              <td>
+                <button type="button" onClick={() => handleDelete(puzzle)}>
+                  <i className="fa fa-trash" />
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    );
+  };
+
+  return (
+    <Flex column className="replays">
+      <Nav hidden={false} v2 canLogin={false} divRef={null} linkStyle={null} mobile={null} />
+      <Helmet>
+        <title>My puzzles</title>
+      </Helmet>
+      <div>
+        <h2 className={classes.header}>{`My puzzles${puzzles ? ` (${puzzles.length})` : ''}`}</h2>
+        {error && <div className={classes.error}>{error}</div>}
+        {renderContent()}
+      </div>
+    </Flex>
+  );
+};
+
+export default MyPuzzles;
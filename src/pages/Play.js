@@ -82,7 +82,7 @@ export default class Play extends Component {
     }
 
     return _.keys(userHistory)
-      .filter((gid) => userHistory[gid].pid === this.pid)
+      .filter((gid) => String(userHistory[gid].pid) === String(this.pid))
       .map((gid) => ({
         ...userHistory[gid],
         gid,
@@ -94,10 +94,9 @@ export default class Play extends Component {
       creating: true,
     });
     actions.getNextGid(async (gid) => {
-      await createGame({gid, pid: this.pid});
+      await createGame({gid, pid: this.pid, fencing: this.is_fencing});
       await this.user.joinGame(gid, {
         pid: this.pid,
-        solved: false,
         v2: true,
       });
       redirect(this.is_fencing ? `/fencing/${gid}` : `/beta/game/${gid}`);
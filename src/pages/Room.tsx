@@ -64,7 +64,8 @@ function subscribeToRoomEvents(
     await emitAsync(socket, 'join_room', rid);
     socket.on('room_event', (event: any) => {
       if (!connected) return;
-      setEvents((events) => [...events, event]);
+      // order by the server-assigned seq, since broadcasts can arrive out of order
+      setEvents((events) => _.sortBy([...events, event], 'seq'));
     });
     const allEvents: RoomEvent[] = (await emitAsync(socket, 'sync_all_room_events', rid)) as any;
     setEvents(allEvents);
@@ -3,7 +3,14 @@ import './css/welcome.css';
 import React, {Component} from 'react';
 import {Helmet} from 'react-helmet';
 import Flex from 'react-flexview';
-import {MdSearch, MdCheckBoxOutlineBlank, MdCheckBox} from 'react-icons/md';
+import {Link} from 'react-router-dom';
+import {
+  MdSearch,
+  MdCheckBoxOutlineBlank,
+  MdCheckBox,
+  MdRadioButtonChecked,
+  MdRadioButtonUnchecked,
+} from 'react-icons/md';
 import _ from 'lodash';
 // eslint-disable-next-line import/no-extraneous-dependencies
 import classnames from 'classnames';
@@ -16,6 +23,13 @@ import {isMobile, colorAverage} from '../lib/jsUtils';
 
 const BLUE = '#6aa9f4';
 const WHITE = '#FFFFFF';
+// what the search bar looks in, see ListPuzzleRequestFilters
+const SEARCH_FIELDS = {
+  titleOrAuthor: 'Title or author',
+  title: 'Title',
+  author: 'Author',
+  clues: 'Clues',
+};
 
 export default class Welcome extends Component {
   constructor(props) {
@@ -109,6 +123,10 @@ export default class Welcome extends Component {
         sizeFilter={this.props.sizeFilter}
         statusFilter={this.props.statusFilter}
         search={this.props.search}
+        searchField={this.props.searchField}
+        sort={this.props.sort}
+        tags={this.props.tags}
+        onChangeTags={this.props.setTags}
         onScroll={this.handleScroll}
       />
     );
@@ -141,6 +159,14 @@ export default class Welcome extends Component {
     this.updateSearch(search);
   };
 
+  handleSearchFieldChange = (e) => {
+    this.props.setSearchField(e.target.value);
+  };
+
+  handleSortChange = (sort) => {
+    this.props.setSort(sort);
+  };
+
   handleSearchFocus = () => {
     this.setState({searchFocused: true});
   };
@@ -194,10 +220,52 @@ export default class Welcome extends Component {
       </Flex>
     );
 
+    // the default order ('') ranks the best matches first when searching
+    const sortOptions = {
+      '': this.props.search ? 'Best match' : 'Newest',
+      ...(this.props.search && {newest: 'Newest'}),
+      mostSolved: 'Most solved',
+      averageSolveTime: 'Quickest solves',
+    };
+    const radioGroup = (header, options, value, handleChange) => (
+      <Flex column style={groupStyle} className="checkbox-group">
+        <span style={headerStyle}>{header}</span>
+        {_.keys(options).map((option) => (
+          <label
+            key={option}
+            onMouseDown={(e) => {
+              e.preventDefault();
+            }}
+          >
+            <input
+              type="radio"
+              style={inputStyle}
+              checked={value === option}
+              onChange={() => {
+                handleChange(option);
+              }}
+            />
+            {value === option ? (
+              <MdRadioButtonChecked className="checkbox-icon" />
+            ) : (
+              <MdRadioButtonUnchecked className="checkbox-icon" />
+            )}
+            <span>{options[option]}</span>
+          </label>
+        ))}
+      </Flex>
+    );
+
     return (
       <Flex className="filters" column hAlignContent="left" shrink={0}>
         {checkboxGroup('Size', sizeFilter, this.handleFilterChange)}
         {checkboxGroup('Status', statusFilter, this.handleFilterChange)}
+        {radioGroup('Sort', sortOptions, this.props.sort, this.handleSortChange)}
+        <Flex column style={groupStyle}>
+          <Link to="/collections" style={headerStyle}>
+            Collections
+          </Link>
+        </Flex>
       </Flex>
     );
   }
@@ -281,6 +349,18 @@ export default class Welcome extends Component {
             defaultValue={this.props.search}
             className="welcome--searchbar"
           />
+          <select
+            aria-label="Search in"
+            className="welcome--searchfield"
+            value={this.props.searchField}
+            onChange={this.handleSearchFieldChange}
+          >
+            {_.map(SEARCH_FIELDS, (label, field) => (
+              <option key={field} value={field}>
+                {label}
+              </option>
+            ))}
+          </select>
         </Flex>
       </Flex>
     );
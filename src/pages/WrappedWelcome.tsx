@@ -1,6 +1,7 @@
 import React from 'react';
 
 import useStateParams from '../lib/hooks/useStateParams';
+import {PuzzleSearchField, PuzzleSort} from '../shared/types';
 import Welcome from './Welcome';
 
 interface UseFencing {
@@ -16,14 +17,16 @@ interface StatusFilter {
 interface SizeFilter {
   Mini: boolean;
   Standard: boolean;
+  Sunday: boolean;
+  Variety: boolean;
 }
 
 function makeStatusFilter(complete: boolean, inProgress: boolean, _new: boolean): StatusFilter {
   return {Complete: complete, 'In progress': inProgress, New: _new};
 }
 
-function makeSizeFilter(mini: boolean, standard: boolean): SizeFilter {
-  return {Mini: mini, Standard: standard};
+function makeSizeFilter(mini: boolean, standard: boolean, sunday: boolean, variety: boolean): SizeFilter {
+  return {Mini: mini, Standard: standard, Sunday: sunday, Variety: variety};
 }
 
 const WrappedWelcome = (props: UseFencing) => {
@@ -62,6 +65,28 @@ const WrappedWelcome = (props: UseFencing) => {
     (s) => s === '1'
   );
 
+  const [includeSunday, setIncludeSunday] = useStateParams(
+    true,
+    'sunday',
+    (s) => (s ? '1' : '0'),
+    (s) => s === '1'
+  );
+
+  const [includeVariety, setIncludeVariety] = useStateParams(
+    true,
+    'variety',
+    (s) => (s ? '1' : '0'),
+    (s) => s === '1'
+  );
+
+  // empty for the default order, i.e. the most relevant first when searching, newest otherwise
+  const [sort, setSort] = useStateParams<PuzzleSort | ''>(
+    '',
+    'sort',
+    (s) => s,
+    (s) => s as PuzzleSort
+  );
+
   const [search, setSearch] = useStateParams(
     '',
     'search',
@@ -69,6 +94,21 @@ const WrappedWelcome = (props: UseFencing) => {
     (s) => s
   );
 
+  const [searchField, setSearchField] = useStateParams<PuzzleSearchField>(
+    'titleOrAuthor',
+    'search_in',
+    (s) => s,
+    (s) => s as PuzzleSearchField
+  );
+
+  // comma separated
+  const [tagsParam, setTagsParam] = useStateParams(
+    '',
+    'tags',
+    (s) => s,
+    (s) => s
+  );
+
   function setStatusFilter(statusFilter: StatusFilter) {
     setIncludeComplete(statusFilter['Complete']);
     setIncludeInProgress(statusFilter['In progress']);
@@ -78,15 +118,27 @@ const WrappedWelcome = (props: UseFencing) => {
   function setSizeFilter(sizeFilter: SizeFilter) {
     setIncludeMini(sizeFilter['Mini']);
     setIncludeStandard(sizeFilter['Standard']);
+    setIncludeSunday(sizeFilter.Sunday);
+    setIncludeVariety(sizeFilter.Variety);
+  }
+
+  function setTags(tags: string[]) {
+    setTagsParam(tags.join(','));
   }
 
   const welcomeProps = {
     statusFilter: makeStatusFilter(includeComplete, includeInProgress, includeNew),
     setStatusFilter,
-    sizeFilter: makeSizeFilter(includeMini, includeStandard),
+    sizeFilter: makeSizeFilter(includeMini, includeStandard, includeSunday, includeVariety),
     setSizeFilter,
+    sort,
+    setSort,
     search,
     setSearch,
+    searchField,
+    setSearchField,
+    tags: tagsParam ? tagsParam.split(',') : [],
+    setTags,
     fencing: props.fencing,
   };
 
@@ -8,6 +8,9 @@ import Battle from './Battle';
 import Play from './Play';
 import Composition from './Composition';
 import Stats from './Stats';
+import MyPuzzles from './MyPuzzles';
+import Collections from './Collections';
+import Collection from './Collection';
 import Room from './Room';
 import Fencing from './Fencing';
 import WrappedWelcome from './WrappedWelcome';
@@ -23,6 +26,9 @@ export {
   Composition,
   Battle,
   Stats,
+  MyPuzzles,
+  Collections,
+  Collection,
   Room,
   Fencing,
   WrappedWelcome,
@@ -9,6 +9,7 @@ import reveal from './eventDefs/reveal';
 import revealAllClues from './eventDefs/revealAllClues';
 import startGame from './eventDefs/startGame';
 import sendChatMessage from './eventDefs/sendChatMessage';
+import updatePuzzle from './eventDefs/updatePuzzle';
 
 export default {
   create,
@@ -22,4 +23,5 @@ export default {
   revealAllClues,
   startGame,
   sendChatMessage,
+  updatePuzzle,
 };
@@ -53,10 +53,10 @@ const reveal: EventDef<RevealEvent> = {
         teamClueVisibility: {
           ...state.game.teamClueVisibility,
           [teamId]: {
-            across: _.assign(state.game.teamClueVisibility![teamId].across, {
+            across: _.assign([], state.game.teamClueVisibility![teamId].across, {
               [teamGrid[r][c].parents!.across]: true,
             }),
-            down: _.assign(state.game.teamClueVisibility![teamId].down, {
+            down: _.assign([], state.game.teamClueVisibility![teamId].down, {
               [teamGrid[r][c].parents!.down]: true,
             }),
           },
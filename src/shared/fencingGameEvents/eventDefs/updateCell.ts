@@ -42,6 +42,7 @@ const updateCell: EventDef<UpdateCellEvent> = {
           ...grid[r][c],
           value,
           bad: false,
+          errata: false,
         },
       }),
     });
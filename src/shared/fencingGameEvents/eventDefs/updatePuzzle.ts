@@ -0,0 +1,55 @@
+import _ from 'lodash';
+import {CluesJson, GridData, InfoJson} from '../../types';
+import {EventDef} from '../types/EventDef';
+
+export interface UpdatePuzzleEvent {
+  info: InfoJson;
+  solution: string[][];
+  clues: CluesJson;
+}
+
+/**
+ * Handle the "updatePuzzle" event, sent by the server once the puzzle is fixed.
+ * Effects:
+ * - replaces state.game.info, solution and clues
+ * - cells whose answer changed are no longer good, bad or revealed (in every grid), and are marked as errata
+ * - the scores stay as they are, including the points of cells checked against the old answer
+ */
+const updatePuzzle: EventDef<UpdatePuzzleEvent> = {
+  reducer(state, {info, solution, clues}) {
+    if (!state.game) {
+      return state;
+    }
+    const oldSolution = state.game.solution;
+
+    const markChangedCells = (grid: GridData): GridData =>
+      grid.map((row, r) =>
+        row.map((cell, c) =>
+          solution[r][c] !== oldSolution[r][c]
+            ? {
+                ...cell,
+                good: false,
+                bad: false,
+                revealed: false,
+                solvedBy: undefined,
+                errata: true,
+              }
+            : cell
+        )
+      );
+
+    return {
+      ...state,
+      game: {
+        ...state.game,
+        info: info ?? state.game.info,
+        solution,
+        clues: clues ?? state.game.clues,
+        grid: markChangedCells(state.game.grid),
+        teamGrids: state.game.teamGrids && _.mapValues(state.game.teamGrids, markChangedCells),
+      },
+    };
+  },
+};
+
+export default updatePuzzle;
@@ -16,6 +16,7 @@ export interface RoomEventParams {
 
 export interface RoomEvent<T extends RoomEventType = RoomEventType> {
   timestamp: number;
+  seq?: number; // assigned by the server, strictly increasing per rid
   type: T;
   params: RoomEventParams[T];
   uid: string;
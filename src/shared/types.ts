@@ -21,6 +21,7 @@ export interface CellData {
   bad?: boolean;
   good?: boolean;
   pencil?: boolean;
+  errata?: boolean; // the answer of the cell was fixed after the game was created, see the updatePuzzle event
   isHidden?: boolean; // used for fencing mode; if true, then player cannot access the cell at all
   solvedBy?: {
     id: string;
@@ -91,14 +92,55 @@ export interface PuzzleStatsJson {
   numSolves: number;
 }
 
+// the body of the 4xx responses of the API
+export interface ErrorResponse {
+  error: string;
+  problems?: string[]; // what is wrong with the request, e.g. with the structure of an uploaded puzzle
+}
+
 export interface AddPuzzleRequest {
   puzzle: PuzzleJson;
   pid?: string; // if not provided, a new one is generated by backend
   isPublic: boolean;
+  allowDuplicate?: boolean; // upload even if the same puzzle is already public
 }
 
+/**
+ * When the same grid, clues, title and author are already public (and allowDuplicate isn't set),
+ * nothing is uploaded: pid is the existing puzzle, and duplicate is true.
+ */
 export interface AddPuzzleResponse {
   pid: string;
+  duplicate?: boolean;
+}
+
+/**
+ * Only the owner of a puzzle can update it. As games of the puzzle may already exist, the grid can only be
+ * fixed letter by letter (keeping its shape and black cells), and the clues can only be reworded, keeping
+ * the same numbers. Fixes are sent to the unsolved games of the puzzle as an updatePuzzle event.
+ * Admins can also set the tags of any puzzle
+ */
+export interface UpdatePuzzleRequest {
+  isPublic?: boolean;
+  info?: Partial<InfoJson>; // merged into the info of the puzzle
+  clues?: CluesJson;
+  grid?: string[][];
+  tags?: string[]; // e.g. "themeless" or "beginner"; lowercase letters, digits and dashes
+}
+
+export interface UpdatePuzzleResponse {}
+
+export interface DeletePuzzleResponse {}
+
+export interface ListUserPuzzlesResponse {
+  puzzles: {
+    pid: string;
+    content: PuzzleJson;
+    stats: PuzzleStatsJson;
+    isPublic: boolean;
+    uploadedAt: number;
+    tags: string[];
+  }[];
 }
 
 export interface ListPuzzleStatsRequest {
@@ -107,26 +149,91 @@ export interface ListPuzzleStatsRequest {
 
 export interface ListPuzzleRequest {
   filter: ListPuzzleRequestFilters;
-  page: number;
+  page?: number; // superseded by cursor, which doesn't shift as puzzles are uploaded
+  cursor?: string; // the nextCursor of the previous page; omitted for the first page
   pageSize: number;
 }
 
+// the size buckets go by the rows and columns of the grid:
+// Mini is up to 10x10, Standard 11 to 16 on each side (e.g. 15x15), Sunday 17 to 25 (e.g. 21x21),
+// and Variety is every other shape (e.g. 5x15).
+// Sunday and Variety were part of Standard, which they follow when omitted.
 export interface ListPuzzleRequestFilters {
   sizeFilter: {
     Mini: boolean;
     Standard: boolean;
+    Sunday?: boolean;
+    Variety?: boolean;
   };
   nameOrTitleFilter: string;
+  searchField?: PuzzleSearchField; // what nameOrTitleFilter is matched against, titleOrAuthor if omitted
+  tags?: string[]; // only the puzzles with all of these tags
+  sort?: PuzzleSort; // the most relevant first when searching, newest otherwise
 }
 
+// when searching, the most relevant puzzles come first
+export type PuzzleSearchField = 'titleOrAuthor' | 'title' | 'author' | 'clues';
+
+// averageSolveTime puts the quickest solved first, and the puzzles that were never solved last
+export type PuzzleSort = 'newest' | 'mostSolved' | 'averageSolveTime';
+
 export interface ListPuzzleResponse {
   puzzles: {
     pid: string;
     content: PuzzleJson;
     stats: PuzzleStatsJson;
+    tags: string[];
+  }[];
+  nextCursor: string | null; // null once there are no more puzzles
+}
+
+export interface ListTagsResponse {
+  tags: {
+    tag: string;
+    count: number;
   }[];
 }
 
+export interface CollectionSummaryJson {
+  collectionId: string;
+  name: string;
+  uid: string; // the account that created it
+  numPuzzles: number;
+  createdAt: number;
+}
+
+export interface ListCollectionsResponse {
+  collections: CollectionSummaryJson[];
+}
+
+export interface GetCollectionResponse {
+  collection: CollectionSummaryJson & {
+    puzzles: ListPuzzleResponse['puzzles']; // in order, skipping the puzzles that were unlisted since
+  };
+}
+
+/**
+ * Collections are created by logged in accounts, and can only be updated or deleted by them (or admins).
+ * Their puzzles must be public
+ */
+export interface CreateCollectionRequest {
+  name: string;
+  pids: string[];
+}
+
+export interface CreateCollectionResponse {
+  collectionId: string;
+}
+
+export interface UpdateCollectionRequest {
+  name?: string;
+  pids?: string[];
+}
+
+export interface UpdateCollectionResponse {}
+
+export interface DeleteCollectionResponse {}
+
 export interface ListPuzzleStatsResponse {
   stats: {
     size: string;
@@ -154,6 +261,7 @@ export interface CreateGameResponse {}
 export interface CreateGameRequest {
   gid: string;
   pid: string;
+  fencing?: boolean; // if true, the server enforces the fencing rules on the game's events
 }
 
 export interface GetGameResponse{
@@ -184,3 +292,101 @@ export interface IncrementPidRequest {}
 export interface IncrementPidResponse {
   pid: string;
 }
+
+/**
+ * The reducer a client replays game events with; game snapshots are stored per reducer,
+ * since a classic game and a fencing game can share the same event log.
+ */
+export type GameSnapshotReducer = 'classic' | 'fencing';
+
+export interface SyncAllGameEventsRequest {
+  gid: string;
+  reducer?: GameSnapshotReducer; // if provided, the events may start with a snapshot event
+}
+
+export interface SyncAllGameEventsResponse {
+  events: any[];
+  presence: any[]; // the latest cursor of each user, which are not stored with the events
+}
+
+export interface SyncGameEventsSinceRequest {
+  gid: string;
+  afterSeq?: number; // the sequence number of the last event the client has seen
+  since?: number; // the timestamp of the last event the client has seen; used if afterSeq is missing
+}
+
+/**
+ * An account; uid is assigned by the server.
+ * localIds are the browser ids (see src/localAuth.js) linked to the account, in the order they were linked.
+ * The first one is the id the account plays as, so that the history kept under it carries over.
+ */
+export interface AuthUser {
+  uid: string;
+  username: string;
+  localIds: string[];
+}
+
+export interface SignUpRequest {
+  username: string;
+  password: string;
+  localId?: string; // linked to the new account, unless another account already linked it
+  idToken?: string; // proves that the browser plays as localId, which isn't linked otherwise
+}
+
+export interface LogInRequest {
+  username: string;
+  password: string;
+  localId?: string; // linked to the account, unless another account already linked it
+  idToken?: string; // proves that the browser plays as localId, which isn't linked otherwise
+}
+
+export interface AuthResponse {
+  token: string; // sent back as "Authorization: Bearer <token>"
+  user: AuthUser;
+}
+
+export interface LogOutResponse {}
+
+export interface GetMeResponse {
+  user: AuthUser;
+}
+
+export interface IdTokenRequest {
+  localId: string;
+}
+
+// proves that the browser plays as the local id; see issueIdToken in server/model/user.ts
+export interface IdTokenResponse {
+  idToken: string;
+}
+
+export interface LinkLocalIdRequest {
+  localId: string;
+  idToken: string;
+}
+
+export interface LinkLocalIdResponse {
+  user: AuthUser;
+}
+
+/**
+ * A game in the history of a user, in the shape the firebase `user/{id}/history` tree used to have
+ */
+export interface UserHistoryEntry {
+  pid: string;
+  solved: boolean;
+  time: number; // when the user joined the game, in ms since epoch
+  v2: boolean;
+}
+
+export interface GetUserHistoryResponse {
+  history: {[gid: string]: UserHistoryEntry};
+}
+
+export interface AddUserGameRequest {
+  gid: string;
+  pid: string;
+  v2?: boolean;
+}
+
+export interface AddUserGameResponse {}
@@ -2,3 +2,31 @@ export const emitAsync = (socket: SocketIOClient.Socket, ...args: any[]) =>
   new Promise((resolve) => {
     (socket as any).emit(...args, resolve);
   });
+
+/**
+ * Like emitAsync, but re-emits if no ack arrives within `timeout` ms, and rejects after `attempts` tries.
+ * Only use this for calls the server handles idempotently, e.g. game_event, which is deduped on event.id.
+ */
+export const emitAsyncWithRetry = (
+  socket: SocketIOClient.Socket,
+  {timeout = 5000, attempts = 3}: {timeout?: number; attempts?: number},
+  ...args: any[]
+) =>
+  new Promise((resolve, reject) => {
+    let acked = false;
+    let attempt = 0;
+    const tryEmit = () => {
+      if (acked) return;
+      if (attempt >= attempts) {
+        reject(new Error(`${args[0]} was not acked after ${attempts} attempts`));
+        return;
+      }
+      attempt += 1;
+      (socket as any).emit(...args, (response: unknown) => {
+        acked = true;
+        resolve(response);
+      });
+      setTimeout(tryEmit, timeout);
+    };
+    tryEmit();
+  });
@@ -1,5 +1,22 @@
 import io from 'socket.io-client';
 import {SOCKET_HOST} from '../api/constants';
+import getLocalId, {getSessionToken, setIdToken} from '../localAuth';
+import {getIdToken} from '../api/auth';
+
+// the server only accepts events sent as this id; see authenticateSocket in server/model/user.ts
+const getIdentityQuery = async () => {
+  const idToken = await getIdToken(); // first, as it may switch to a new id
+  return {
+    id: getLocalId(),
+    idToken,
+    token: getSessionToken() || '',
+  };
+};
+
+const reconnect = async (socket: SocketIOClient.Socket) => {
+  (socket as any).io.opts.query = await getIdentityQuery();
+  socket.disconnect().connect();
+};
 
 let websocketPromise: Promise<SocketIOClient.Socket>;
 export const getSocket = () => {
@@ -7,7 +24,19 @@ export const getSocket = () => {
     websocketPromise = (async () => {
       // Note: In attempt to increase websocket limit, use upgrade false
       // https://stackoverflow.com/questions/15872788/maximum-concurrent-socket-io-connections
-      const socket = io(SOCKET_HOST, {upgrade: false, transports: ['websocket']});
+      const socket = io(SOCKET_HOST, {
+        upgrade: false,
+        transports: ['websocket'],
+        query: await getIdentityQuery(),
+      });
+
+      // the server no longer knows the stored id token (see authenticateSocket), so ask for a new one
+      socket.on('error', (message: unknown) => {
+        if (typeof message === 'string' && message.startsWith('Invalid id token')) {
+          setIdToken(getLocalId(), null);
+          reconnect(socket);
+        }
+      });
 
       (window as any).socket = socket;
 
@@ -39,3 +68,9 @@ export const getSocket = () => {
   }
   return websocketPromise;
 };
+
+// reconnects as the current id, e.g. after logging in switched to the id of the account
+export const reauthenticateSocket = async () => {
+  if (!websocketPromise) return;
+  await reconnect(await websocketPromise);
+};
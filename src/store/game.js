@@ -4,7 +4,7 @@ import _ from 'lodash';
 import io from 'socket.io-client';
 import * as uuid from 'uuid';
 import * as colors from '../lib/colors';
-import {emitAsync} from '../sockets/emitAsync';
+import {emitAsync, emitAsyncWithRetry} from '../sockets/emitAsync';
 import {getSocket} from '../sockets/getSocket';
 import {db, SERVER_TIME} from './firebase';
 
@@ -37,6 +37,7 @@ export default class Game extends EventEmitter {
     this.ref = db.ref(path);
     this.eventsRef = this.ref.child('events');
     this.createEvent = null;
+    this.lastEventSeq = 0;
     this.checkArchive();
   }
 
@@ -61,6 +62,7 @@ export default class Game extends EventEmitter {
       console.log('reconnecting...');
       await emitAsync(socket, 'join_game', this.gid);
       console.log('reconnected...');
+      await this.syncMissedEvents();
       this.emitReconnect();
     });
   }
@@ -74,7 +76,8 @@ export default class Game extends EventEmitter {
   }
 
   emitWSEvent(event) {
-    if (event.type === 'create') {
+    this.lastEventSeq = Math.max(this.lastEventSeq, event.seq || 0);
+    if (event.type === 'create' || event.type === 'snapshot') {
       this.emit('wsCreateEvent', event);
       console.log('Connected!');
     } else {
@@ -82,6 +85,17 @@ export default class Game extends EventEmitter {
     }
   }
 
+  emitMissedWSEvents(events) {
+    events.forEach((event) => {
+      this.lastEventSeq = Math.max(this.lastEventSeq, event.seq || 0);
+    });
+    this.emit('wsMissedEvents', events);
+  }
+
+  emitPresenceEvent(event) {
+    this.emit('wsPresenceEvent', event);
+  }
+
   emitOptimisticEvent(event) {
     this.emit('wsOptimisticEvent', event);
   }
@@ -94,22 +108,42 @@ export default class Game extends EventEmitter {
     event.id = uuid.v4();
     this.emitOptimisticEvent(event);
     await this.connectToWebsocket();
-    await this.pushEventToWebsocket(event);
+    const response = await this.pushEventToWebsocket(event);
+    if (response && response.error) {
+      console.error('Server rejected event', event, response.error);
+      this.emit('wsRejectedEvent', event);
+    }
+  }
+
+  // cursors and pings are relayed to the other players without being stored, so they are not retried
+  async addPresenceEvent(event) {
+    await this.connectToWebsocket();
+    const response = await emitAsync(this.socket, 'game_presence', {
+      event,
+      gid: this.gid,
+    });
+    if (response && response.error) {
+      console.error('Server rejected presence event', event, response.error);
+    }
   }
 
   pushEventToWebsocket(event) {
-    if (!this.socket || !this.socket.connected) {
-      this.socket && this.socket.close().open(); // HACK try to fix the disconnection bug
+    if (!this.socket) {
       throw new Error('Not connected to websocket');
     }
+    if (!this.socket.connected) {
+      this.socket.close().open(); // HACK try to fix the disconnection bug
+    }
 
-    return emitAsync(this.socket, 'game_event', {
+    // while disconnected, socket.io buffers the emit until we reconnect.
+    // retrying is safe, as the server dedupes game events on event.id
+    return emitAsyncWithRetry(this.socket, {}, 'game_event', {
       event,
       gid: this.gid,
     });
   }
 
-  async subscribeToWebsocketEvents() {
+  async subscribeToWebsocketEvents({compacted = false} = {}) {
     if (!this.socket || !this.socket.connected) {
       throw new Error('Not connected to websocket');
     }
@@ -118,11 +152,33 @@ export default class Game extends EventEmitter {
       event = castNullsToUndefined(event);
       this.emitWSEvent(event);
     });
-    const response = await emitAsync(this.socket, 'sync_all_game_events', this.gid);
-    response.forEach((event) => {
+    this.socket.on('game_presence', (event) => {
+      event = castNullsToUndefined(event);
+      this.emitPresenceEvent(event);
+    });
+    // a compacted history starts with a snapshot instead of the create event; replays need the full history
+    const request = compacted ? {gid: this.gid, reducer: 'classic'} : {gid: this.gid};
+    const response = await emitAsync(this.socket, 'sync_all_game_events', request);
+    response.events.forEach((event) => {
       event = castNullsToUndefined(event);
       this.emitWSEvent(event);
     });
+    response.presence.forEach((event) => {
+      event = castNullsToUndefined(event);
+      this.emitPresenceEvent(event);
+    });
+  }
+
+  // fetches only the events sent while we were disconnected, instead of the full history
+  async syncMissedEvents() {
+    if (!this.lastEventSeq) {
+      return;
+    }
+    const response = await emitAsync(this.socket, 'sync_game_events_since', {
+      gid: this.gid,
+      afterSeq: this.lastEventSeq,
+    });
+    this.emitMissedWSEvents(response.map(castNullsToUndefined));
   }
 
   // Firebase Code
@@ -157,14 +213,16 @@ export default class Game extends EventEmitter {
     });
   }
 
-  async attach() {
+  async attach({compacted = false} = {}) {
     this.ref.child('battleData').on('value', (snapshot) => {
       this.emit('battleData', snapshot.val());
     });
 
     console.log('subscribed');
 
-    const websocketPromise = this.connectToWebsocket().then(() => this.subscribeToWebsocketEvents());
+    const websocketPromise = this.connectToWebsocket().then(() =>
+      this.subscribeToWebsocketEvents({compacted})
+    );
     await websocketPromise;
   }
 
@@ -188,7 +246,7 @@ export default class Game extends EventEmitter {
   }
 
   updateCursor(r, c, id) {
-    this.addEvent({
+    this.addPresenceEvent({
       timestamp: SERVER_TIME,
       type: 'updateCursor',
       params: {
@@ -200,7 +258,7 @@ export default class Game extends EventEmitter {
   }
 
   addPing(r, c, id) {
-    this.addEvent({
+    this.addPresenceEvent({
       timestamp: SERVER_TIME,
       type: 'addPing',
       params: {
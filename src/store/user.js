@@ -1,19 +1,30 @@
 import EventEmitter from 'events';
-import firebase, {db, SERVER_TIME, getTime} from './firebase';
-import getLocalId from '../localAuth';
+import firebase, {db, SERVER_TIME} from './firebase';
+import getLocalId, {getSessionToken, resetLocalId, setLocalId, setSessionToken} from '../localAuth';
+import * as authApi from '../api/auth';
+import {addUserGame, fetchUserHistory} from '../api/user';
+import {reauthenticateSocket} from '../sockets/getSocket';
 import {rand_color} from '../lib/jsUtils';
 
 const disableFbLogin = true;
 
+// the local id of this browser, along with the id token the server needs to link it to an account
+async function getProvenLocalId() {
+  const idToken = await authApi.getIdToken(); // first, as it may switch to a new id
+  return {localId: getLocalId(), idToken};
+}
+
 export default class User extends EventEmitter {
   constructor() {
     super();
     this.auth = firebase.auth();
     this.attached = false;
     this.color = rand_color();
+    this.account = null; // the AuthUser logged in with a username and password, if any
   }
 
   attach() {
+    this.loadAccount();
     this.auth.onAuthStateChanged((user) => {
       this.attached = true;
       this.fb = user;
@@ -27,6 +38,56 @@ export default class User extends EventEmitter {
     this.auth.signInWithPopup(provider);
   }
 
+  loadAccount() {
+    const token = getSessionToken();
+    if (!token) return;
+    authApi
+      .fetchMe(token)
+      .then(({user}) => this.setAccount(user))
+      .catch((e) => {
+        console.log('failed to load account:', e.message);
+        if (e.status === 401) {
+          // the session expired
+          setSessionToken(null);
+          resetLocalId();
+          reauthenticateSocket();
+        }
+      });
+  }
+
+  setAccount(account) {
+    this.account = account;
+    if (account && account.localIds.length > 0) {
+      // play as the id the account's history is kept under
+      setLocalId(account.localIds[0]);
+    }
+    reauthenticateSocket();
+    this.emit('auth');
+  }
+
+  // the local id of this browser is linked to the account, so that its history carries over
+  async signUp(username, password) {
+    const {token, user} = await authApi.signUp({username, password, ...(await getProvenLocalId())});
+    setSessionToken(token);
+    this.setAccount(user);
+  }
+
+  async logInWithPassword(username, password) {
+    const {token, user} = await authApi.logIn({username, password, ...(await getProvenLocalId())});
+    setSessionToken(token);
+    this.setAccount(user);
+  }
+
+  async logOut() {
+    const token = getSessionToken();
+    setSessionToken(null);
+    resetLocalId();
+    this.setAccount(null);
+    if (token) {
+      await authApi.logOut(token);
+    }
+  }
+
   get ref() {
     return db.ref(`user/${this.id}`);
   }
@@ -56,11 +117,9 @@ export default class User extends EventEmitter {
     return getLocalId();
   }
 
+  // the games joined under this id; when logged in, also those of the other browsers linked to the account
   listUserHistory() {
-    return this.ref
-      .child('history')
-      .once('value')
-      .then((snapshot) => snapshot.val());
+    return fetchUserHistory(this.account ? this.account.uid : this.id).then(({history}) => history);
   }
 
   listCompositions() {
@@ -81,32 +140,11 @@ export default class User extends EventEmitter {
     });
   }
 
-  joinGame(gid, {pid = -1, solved = false, v2 = false}) {
-    const time = getTime();
+  // the server also records joins itself, on the first updateCell of a user; see server/model/user_game.ts
+  async joinGame(gid, {pid = -1, v2 = false}) {
+    await authApi.getIdToken(); // first, as it may switch to a new id
     // safe to call this multiple times
-    return this.ref.child('history').child(gid).set({
-      pid,
-      solved,
-      // progress: game.progress,
-      time,
-      v2,
-    });
-  }
-
-  markSolved(gid) {
-    this.ref
-      .child('history')
-      .child(gid)
-      .transaction((item) => {
-        if (!item) {
-          // don't mark un-joined games as solved
-          return null;
-        }
-        return {
-          ...item,
-          solved: true,
-        };
-      });
+    return addUserGame(this.id, {gid, pid: String(pid), v2});
   }
 
   recordUsername(username) {